@@ -4,35 +4,55 @@ export class ConsoleAdapter implements TraceAdapter {
     export(traceData: TraceData): void {
         const {
             type,
+            side,
+            direction,
+            status: requestStatus,
+            status_reason,
             method,
             entity_name,
             request,
             response,
+            request_size,
+            response_size,
             timestamp,
             duration,
             id,
             session_id,
+            trace_id,
+            span_id,
+            parent_span_id,
             user_id,
             user_name,
             user_email,
             client_id,
             client_name,
             client_version,
+            client_capabilities,
+            protocol_version,
             server_id,
             server_name,
             server_version,
             is_error,
             error,
+            error_type,
+            error_code,
+            error_data,
             ip_address,
             context,
             sdk_language,
             sdk_version,
             mcp_trace_version,
-            metadata
+            metadata,
+            sample_rate,
+            progress,
+            annotations,
+            events,
+            spans,
+            session_summary
         } = traceData;
 
         const status = error || is_error
-            ? this.colorText(' ERROR ', 'bgRed', 'bold')
+            ? this.colorText(error_type === 'tool' ? ' TOOL ERROR ' : ' ERROR ', 'bgRed', 'bold')
             : this.colorText(' SUCCESS ', 'bgGreen', 'bold');
 
         console.log('');
@@ -42,12 +62,20 @@ export class ConsoleAdapter implements TraceAdapter {
 
         // Basic trace info
         this.logField('Type', type);
+        this.logField('Side', side);
+        this.logField('Direction', direction);
+        this.logField('Status', requestStatus);
+        this.logField('Status Reason', status_reason);
         this.logField('Method', method);
         this.logField('Entity Name', entity_name);
         this.logField('Timestamp', timestamp);
         this.logField('Duration', duration !== undefined ? `${duration} ms` : undefined);
         this.logField('Trace ID', id);
         this.logField('Session ID', session_id);
+        this.logField('W3C Trace ID', trace_id);
+        this.logField('Span ID', span_id);
+        this.logField('Parent Span ID', parent_span_id);
+        this.logField('Sample Rate', sample_rate);
 
         // User info
         this.logField('User ID', user_id);
@@ -58,6 +86,8 @@ export class ConsoleAdapter implements TraceAdapter {
         this.logField('Client ID', client_id);
         this.logField('Client Name', client_name);
         this.logField('Client Version', client_version);
+        this.logField('Protocol Version', protocol_version);
+        this.logField('Capabilities', this.formatJSON(client_capabilities));
 
         // Server info
         this.logField('Server ID', server_id);
@@ -67,10 +97,15 @@ export class ConsoleAdapter implements TraceAdapter {
         // Request/Response
         this.logField('Request', this.formatJSON(request));
         this.logField('Response', this.formatJSON(response));
+        this.logField('Request Size', request_size !== undefined ? `${request_size} bytes` : undefined);
+        this.logField('Response Size', response_size !== undefined ? `${response_size} bytes` : undefined);
 
         // Error info
         this.logField('Is Error', is_error);
+        this.logField('Error Type', error_type);
+        this.logField('Error Code', error_code);
         this.logField('Error', error, 'red');
+        this.logField('Error Data', this.formatJSON(error_data), 'red');
 
         // Network & Context
         this.logField('IP Address', ip_address);
@@ -81,6 +116,17 @@ export class ConsoleAdapter implements TraceAdapter {
         this.logField('SDK Version', sdk_version);
         this.logField('MCP Trace Version', mcp_trace_version);
 
+        // Progress
+        this.logField('Progress', this.formatJSON(progress));
+
+        // Recorded by the request handler
+        this.logField('Annotations', this.formatJSON(annotations));
+        this.logField('Events', this.formatJSON(events));
+        this.logField('Spans', this.formatJSON(spans));
+
+        // Session summary
+        this.logField('Session Summary', this.formatJSON(session_summary));
+
         // Metadata
         this.logField('Metadata', this.formatJSON(metadata));
 
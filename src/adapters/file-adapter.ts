@@ -1,30 +1,274 @@
-import { appendFileSync, existsSync, writeFileSync } from 'fs';
+import { createReadStream, createWriteStream, existsSync, statSync, writeFileSync } from 'fs';
+import { FileHandle, open, readdir, rename, stat, unlink } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
 import { TraceAdapter, TraceData } from '../types';
 
+export interface FileAdapterConfig {
+    /**
+     * Rotate the file once writing to it would take it past this many bytes.
+     */
+    maxSize?: number;
+
+    /**
+     * Rotate the file at the start of every hour or day (UTC).
+     */
+    interval?: 'hourly' | 'daily';
+
+    /**
+     * Gzip rotated files. Defaults to true.
+     */
+    compress?: boolean;
+
+    /**
+     * Number of rotated files to keep. Older ones are deleted. Defaults to keeping all of them.
+     */
+    maxFiles?: number;
+
+    /**
+     * Days to keep rotated files for. Defaults to keeping them forever.
+     */
+    maxDays?: number;
+
+    /**
+     * Bytes of traces held in memory before they are written. Defaults to 64 KiB.
+     */
+    bufferSize?: number;
+
+    /**
+     * Interval in milliseconds at which buffered traces are written. Defaults to 1000ms.
+     */
+    flushInterval?: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Writes traces as JSON lines. Traces are buffered and written asynchronously,
+ * and the file can be rotated by size or by time:
+ *
+ * ```ts
+ * // traces.jsonl is rotated to traces.2026-01-31T00-00-00-000.jsonl.gz every day; a week is kept
+ * const adapter = new FileAdapter('./traces.jsonl', { interval: 'daily', maxDays: 7 });
+ * ```
+ */
 export class FileAdapter implements TraceAdapter {
     private filePath: string;
+    private config: FileAdapterConfig;
+    private bufferSize: number;
+    private buffer: string[] = [];
+    private bufferedBytes = 0;
+    private handle?: FileHandle;
+    private fileSize: number;
+    private fileStartedAt: number;
+    private queue: Promise<void> = Promise.resolve();
+    private timer: NodeJS.Timeout | null = null;
+    private closed = false;
 
-    constructor(filePath: string) {
+    constructor(filePath: string, config: FileAdapterConfig = {}) {
         this.filePath = filePath;
+        this.config = config;
+        this.bufferSize = config.bufferSize ?? 64 * 1024;
+
+        if (config.maxSize !== undefined && !(config.maxSize > 0)) {
+            throw new Error('maxSize must be a positive number of bytes');
+        }
+        if (config.interval !== undefined && config.interval !== 'hourly' && config.interval !== 'daily') {
+            throw new Error("interval must be 'hourly' or 'daily'");
+        }
+
         if (!existsSync(filePath)) {
             writeFileSync(filePath, '');
         }
+
+        // An existing file is rotated on the first write if its period is already over
+        const stats = statSync(filePath);
+        this.fileSize = stats.size;
+        this.fileStartedAt = stats.size > 0 ? stats.mtimeMs : Date.now();
+
+        this.timer = setInterval(() => this.writeBuffer(), config.flushInterval ?? 1000);
+        this.timer.unref();
     }
 
     export(traceData: TraceData): void {
+        if (this.closed) {
+            return;
+        }
+
         try {
             const jsonLine = JSON.stringify(traceData) + '\n';
-            appendFileSync(this.filePath, jsonLine);
+            this.buffer.push(jsonLine);
+            this.bufferedBytes += Buffer.byteLength(jsonLine);
+            if (this.bufferedBytes >= this.bufferSize) {
+                this.writeBuffer();
+            }
         } catch (error) {
-            console.error('Failed to write trace to file:', error);
+            console.error('[FileAdapter] Failed to serialize trace:', error);
+        }
+    }
+
+    /**
+     * Writes buffered traces and waits until they are synced to disk.
+     */
+    async flush(): Promise<void> {
+        this.writeBuffer();
+        this.enqueue(async () => {
+            await this.handle?.sync();
+        });
+        await this.queue;
+    }
+
+    async shutdown(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        await this.flush();
+        this.closed = true;
+        this.enqueue(async () => {
+            await this.handle?.close();
+            this.handle = undefined;
+        });
+        await this.queue;
+    }
+
+    private writeBuffer(): void {
+        if (this.buffer.length === 0) {
+            return;
+        }
+
+        const chunk = this.buffer.join('');
+        this.buffer = [];
+        this.bufferedBytes = 0;
+        this.enqueue(() => this.write(chunk));
+    }
+
+    /**
+     * Runs file operations one at a time, in order.
+     */
+    private enqueue(task: () => Promise<void>): void {
+        this.queue = this.queue.then(task).catch(error => {
+            console.error('[FileAdapter] Failed to write traces:', error);
+        });
+    }
+
+    private async write(chunk: string): Promise<void> {
+        const bytes = Buffer.byteLength(chunk);
+        if (this.shouldRotate(bytes)) {
+            await this.rotate();
+        }
+
+        if (!this.handle) {
+            this.handle = await open(this.filePath, 'a');
         }
+        await this.handle.write(chunk);
+        this.fileSize += bytes;
     }
 
-    flush(): Promise<void> {
-        return Promise.resolve();
+    private shouldRotate(bytes: number): boolean {
+        if (this.fileSize === 0) {
+            return false;
+        }
+        if (this.config.maxSize !== undefined && this.fileSize + bytes > this.config.maxSize) {
+            return true;
+        }
+        return this.config.interval !== undefined && Date.now() >= this.nextRotationAt();
     }
 
-    shutdown(): Promise<void> {
-        return Promise.resolve();
+    /**
+     * Start of the first hour or day (UTC) after the current file was started.
+     */
+    private nextRotationAt(): number {
+        const period = this.config.interval === 'hourly' ? HOUR : DAY;
+        return (Math.floor(this.fileStartedAt / period) + 1) * period;
     }
-} 
\ No newline at end of file
+
+    private async rotate(): Promise<void> {
+        await this.handle?.close();
+        this.handle = undefined;
+
+        const rotatedPath = this.rotatedPath(this.fileStartedAt);
+        await rename(this.filePath, rotatedPath);
+        this.fileSize = 0;
+        this.fileStartedAt = Date.now();
+
+        if (this.config.compress ?? true) {
+            // Compress under a temporary name so readers never see a partial .gz
+            await pipeline(createReadStream(rotatedPath), createGzip(), createWriteStream(`${rotatedPath}.gz.tmp`));
+            await rename(`${rotatedPath}.gz.tmp`, `${rotatedPath}.gz`);
+            await unlink(rotatedPath);
+        }
+
+        await this.prune();
+    }
+
+    /**
+     * `traces.jsonl` started at 18:04:05.123 becomes `traces.2026-01-31T18-04-05-123.jsonl`,
+     * with a counter added if that name is taken.
+     */
+    private rotatedPath(startedAt: number): string {
+        const { name, ext } = this.fileNameParts();
+        const stamp = new Date(startedAt).toISOString().slice(0, 23).replace(/[:.]/g, '-');
+
+        for (let counter = 0; ; counter++) {
+            const suffix = counter === 0 ? '' : `.${counter}`;
+            const candidate = join(dirname(this.filePath), `${name}.${stamp}${suffix}${ext}`);
+            if (!existsSync(candidate) && !existsSync(`${candidate}.gz`)) {
+                return candidate;
+            }
+        }
+    }
+
+    /**
+     * Deletes rotated files beyond `maxFiles` or older than `maxDays`.
+     */
+    private async prune(): Promise<void> {
+        const { maxFiles, maxDays } = this.config;
+        if (maxFiles === undefined && maxDays === undefined) {
+            return;
+        }
+
+        const rotated = await listRotatedFiles(this.filePath);
+        const keepFrom = maxFiles !== undefined ? rotated.length - maxFiles : 0;
+        const cutoff = maxDays !== undefined ? Date.now() - maxDays * DAY : -Infinity;
+        for (const [index, path] of rotated.entries()) {
+            if (index < keepFrom || (await stat(path)).mtimeMs < cutoff) {
+                await unlink(path);
+            }
+        }
+    }
+
+    private fileNameParts(): { name: string; ext: string } {
+        const ext = extname(this.filePath);
+        return { name: basename(this.filePath, ext), ext };
+    }
+}
+
+/**
+ * Lists the files a `FileAdapter` writing to `filePath` has rotated, oldest first.
+ */
+export async function listRotatedFiles(filePath: string): Promise<string[]> {
+    const directory = dirname(filePath);
+    const ext = extname(filePath);
+    const pattern = new RegExp(
+        `^${escapeRegExp(basename(filePath, ext))}\\.(\\d{4}-\\d{2}-\\d{2}T[\\d-]{12})(?:\\.(\\d+))?${escapeRegExp(ext)}(?:\\.gz)?$`
+    );
+
+    const rotated: { path: string; stamp: string; counter: number }[] = [];
+    for (const file of await readdir(directory)) {
+        const match = pattern.exec(file);
+        if (match) {
+            rotated.push({ path: join(directory, file), stamp: match[1], counter: Number(match[2] ?? 0) });
+        }
+    }
+
+    rotated.sort((a, b) => a.stamp.localeCompare(b.stamp) || a.counter - b.counter);
+    return rotated.map(file => file.path);
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
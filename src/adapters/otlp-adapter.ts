@@ -1,4 +1,5 @@
-import { TraceAdapter, TraceData } from '../types';
+import { generateSpanId, generateTraceId } from '../trace-context';
+import { TraceAdapter, TraceData, TraceSpan } from '../types';
 
 /**
  * Configuration options for the OTLP adapter
@@ -58,8 +59,15 @@ export class OTLPAdapter implements TraceAdapter {
     private config: Required<OTLPConfig>;
     private tracer: any = null;
     private provider: any = null;
+    private api: any = null;
     private isInitialized = false;
 
+    /**
+     * Ids for the span being started, handed to the SDK through the id generator
+     * so exported spans keep the trace and span ids recorded by the middleware.
+     */
+    private nextIds: { traceId?: string; spanId?: string } = {};
+
     constructor(config: OTLPConfig = {}) {
         this.config = {
             endpoint: config.endpoint || 'http://localhost:4318/v1/traces',
@@ -117,10 +125,15 @@ export class OTLPAdapter implements TraceAdapter {
                     [SemanticResourceAttributes.SERVICE_VERSION]: this.config.serviceVersion,
                 }),
                 spanProcessor,
+                idGenerator: {
+                    generateTraceId: () => this.nextIds.traceId ?? generateTraceId(),
+                    generateSpanId: () => this.nextIds.spanId ?? generateSpanId(),
+                },
             });
 
             sdk.start();
             this.provider = sdk;
+            this.api = apiModule;
             this.tracer = trace.getTracer(this.config.serviceName, this.config.serviceVersion);
             this.isInitialized = true;
 
@@ -149,11 +162,16 @@ export class OTLPAdapter implements TraceAdapter {
             // Create span attributes from trace data
             const attributes = this.createSpanAttributes(traceData);
 
-            // Create and start span
-            const span = this.tracer.startSpan(spanName, {
+            // A request trace is stamped when it completes, so it started `duration` ms earlier
+            const endTime = traceData.timestamp ? new Date(traceData.timestamp).getTime() : Date.now();
+            const startTime = traceData.duration ? endTime - traceData.duration : endTime;
+
+            // Create and start span, reusing the middleware's ids so parent/child links hold
+            const span = this.startSpanWithIds(spanName, {
+                kind: traceData.direction === 'outbound' ? 2 : 1, // CLIENT for requests we sent, SERVER otherwise
                 attributes,
-                startTime: traceData.timestamp ? new Date(traceData.timestamp).getTime() * 1000000 : undefined, // Convert to nanoseconds
-            });
+                startTime: startTime * 1000000, // Convert to nanoseconds
+            }, traceData.trace_id, traceData.span_id, this.createParentContext(traceData));
 
             // Add events for request/response if available
             if (traceData.request) {
@@ -168,6 +186,25 @@ export class OTLPAdapter implements TraceAdapter {
                 });
             }
 
+            // Add progress updates as timestamped events
+            for (const event of traceData.progress_events ?? []) {
+                const attributes: Record<string, any> = { 'mcp.progress': event.progress };
+                if (event.total !== undefined) attributes['mcp.progress_total'] = event.total;
+                if (event.message) attributes['mcp.progress_message'] = event.message;
+                span.addEvent('progress', attributes, new Date(event.timestamp).getTime() * 1000000);
+            }
+
+            // Add events recorded by the request handler
+            for (const event of traceData.events ?? []) {
+                span.addEvent(event.name, this.flattenAttributes(event.attributes), new Date(event.timestamp).getTime() * 1000000);
+            }
+
+            if (traceData.error_data !== undefined) {
+                span.addEvent('error_data', {
+                    'mcp.error_data': JSON.stringify(traceData.error_data),
+                });
+            }
+
             if (traceData.error) {
                 span.recordException(new Error(traceData.error));
                 span.setStatus({ code: 2, message: traceData.error }); // ERROR status
@@ -175,12 +212,12 @@ export class OTLPAdapter implements TraceAdapter {
                 span.setStatus({ code: 1 }); // OK status
             }
 
+            for (const childSpan of traceData.spans ?? []) {
+                this.exportChildSpan(traceData, childSpan);
+            }
+
             // Set duration if available
             if (traceData.duration) {
-                // End time = start time + duration
-                const endTime = traceData.timestamp
-                    ? new Date(traceData.timestamp).getTime() + traceData.duration
-                    : Date.now();
                 span.end(endTime * 1000000); // Convert to nanoseconds
             } else {
                 span.end();
@@ -192,6 +229,75 @@ export class OTLPAdapter implements TraceAdapter {
         }
     }
 
+    /**
+     * Start a span whose trace and span ids are the given ones
+     */
+    private startSpanWithIds(name: string, options: Record<string, any>, traceId: string | undefined, spanId: string | undefined, parentContext: any): any {
+        this.nextIds = { traceId, spanId };
+        try {
+            return this.tracer.startSpan(name, options, parentContext);
+        } finally {
+            this.nextIds = {};
+        }
+    }
+
+    /**
+     * Export a span recorded by the request handler as a child of the request's span
+     */
+    private exportChildSpan(traceData: TraceData, childSpan: TraceSpan): void {
+        const startTime = new Date(childSpan.start_time).getTime();
+        const parentContext = this.createContext(traceData.trace_id, childSpan.parent_span_id ?? traceData.span_id, traceData.trace_state, false);
+
+        const span = this.startSpanWithIds(childSpan.name, {
+            kind: 0, // INTERNAL
+            attributes: this.flattenAttributes(childSpan.attributes),
+            startTime: startTime * 1000000,
+        }, traceData.trace_id, childSpan.span_id, parentContext);
+
+        if (childSpan.is_error) {
+            span.setStatus({ code: 2, message: childSpan.error }); // ERROR status
+        }
+
+        const endTime = childSpan.end_time ? new Date(childSpan.end_time).getTime() : startTime;
+        span.end(endTime * 1000000);
+    }
+
+    /**
+     * Create the context holding the remote parent span, or a root context
+     * when the trace has no parent
+     */
+    private createParentContext(traceData: TraceData): any {
+        return this.createContext(traceData.trace_id, traceData.parent_span_id, traceData.trace_state, true);
+    }
+
+    private createContext(traceId: string | undefined, parentSpanId: string | undefined, traceState: string | undefined, isRemote: boolean): any {
+        const { context, trace, createTraceState, ROOT_CONTEXT } = this.api;
+
+        if (!traceId || !parentSpanId) {
+            return ROOT_CONTEXT ?? context.active();
+        }
+
+        return trace.setSpanContext(ROOT_CONTEXT ?? context.active(), {
+            traceId,
+            spanId: parentSpanId,
+            traceFlags: 1, // SAMPLED
+            isRemote,
+            traceState: traceState && createTraceState ? createTraceState(traceState) : undefined,
+        });
+    }
+
+    /**
+     * OpenTelemetry attributes must be primitives, so anything else is stored as JSON
+     */
+    private flattenAttributes(attributes?: Record<string, any>): Record<string, any> {
+        const flattened: Record<string, any> = {};
+        for (const [key, value] of Object.entries(attributes ?? {})) {
+            if (value === undefined || value === null) continue;
+            flattened[key] = typeof value === 'object' ? JSON.stringify(value) : value;
+        }
+        return flattened;
+    }
+
     /**
      * Create a meaningful span name from trace data
      */
@@ -222,10 +328,26 @@ export class OTLPAdapter implements TraceAdapter {
             'mcp.session_id': traceData.session_id,
         };
 
+        if (traceData.side) {
+            attributes['mcp.side'] = traceData.side;
+        }
+
+        if (traceData.direction) {
+            attributes['mcp.direction'] = traceData.direction;
+        }
+
         if (traceData.method) {
             attributes['mcp.method'] = traceData.method;
         }
 
+        if (traceData.status) {
+            attributes['mcp.status'] = traceData.status;
+        }
+
+        if (traceData.status_reason) {
+            attributes['mcp.status_reason'] = traceData.status_reason;
+        }
+
         if (traceData.entity_name) {
             attributes['mcp.entity_name'] = traceData.entity_name;
         }
@@ -246,6 +368,18 @@ export class OTLPAdapter implements TraceAdapter {
             attributes['mcp.is_error'] = traceData.is_error;
         }
 
+        if (traceData.error_type) {
+            attributes['mcp.error_type'] = traceData.error_type;
+        }
+
+        if (traceData.error_code !== undefined) {
+            attributes['mcp.error_code'] = traceData.error_code;
+        }
+
+        if (traceData.server_id) {
+            attributes['mcp.server_id'] = traceData.server_id;
+        }
+
         if (traceData.server_name) {
             attributes['mcp.server_name'] = traceData.server_name;
         }
@@ -262,6 +396,14 @@ export class OTLPAdapter implements TraceAdapter {
             attributes['mcp.client_version'] = traceData.client_version;
         }
 
+        if (traceData.client_capabilities) {
+            attributes['mcp.client_capabilities'] = JSON.stringify(traceData.client_capabilities);
+        }
+
+        if (traceData.protocol_version) {
+            attributes['mcp.protocol_version'] = traceData.protocol_version;
+        }
+
         if (traceData.user_id) {
             attributes['mcp.user_id'] = traceData.user_id;
         }
@@ -290,6 +432,44 @@ export class OTLPAdapter implements TraceAdapter {
             attributes['mcp.trace_version'] = traceData.mcp_trace_version;
         }
 
+        if (traceData.request_size !== undefined) {
+            attributes['mcp.request_size'] = traceData.request_size;
+        }
+
+        if (traceData.response_size !== undefined) {
+            attributes['mcp.response_size'] = traceData.response_size;
+        }
+
+        for (const [key, value] of Object.entries(this.flattenAttributes(traceData.annotations))) {
+            attributes[`mcp.annotation.${key}`] = value;
+        }
+
+        if (traceData.sample_rate !== undefined) {
+            attributes['mcp.sample_rate'] = traceData.sample_rate;
+        }
+
+        if (traceData.progress) {
+            attributes['mcp.progress.count'] = traceData.progress.count;
+            attributes['mcp.progress.time_to_first_ms'] = traceData.progress.time_to_first_ms;
+            attributes['mcp.progress.avg_interval_ms'] = traceData.progress.avg_interval_ms;
+            attributes['mcp.progress.max_interval_ms'] = traceData.progress.max_interval_ms;
+        }
+
+        if (traceData.session_summary) {
+            const summary = traceData.session_summary;
+            attributes['mcp.session.duration_ms'] = summary.duration;
+            attributes['mcp.session.request_count'] = summary.request_count;
+            attributes['mcp.session.error_count'] = summary.error_count;
+            attributes['mcp.session.transport_error_count'] = summary.transport_error_count;
+            attributes['mcp.session.total_latency_ms'] = summary.total_latency_ms;
+            attributes['mcp.session.slowest_latency_ms'] = summary.slowest_latency_ms;
+            attributes['mcp.session.requests_by_method'] = JSON.stringify(summary.requests_by_method);
+            attributes['mcp.session.requests_by_tool'] = JSON.stringify(summary.requests_by_tool);
+            if (summary.slowest_method) {
+                attributes['mcp.session.slowest_method'] = summary.slowest_method;
+            }
+        }
+
         if (traceData.metadata) {
             Object.entries(traceData.metadata).forEach(([key, value]) => {
                 attributes[`mcp.metadata.${key}`] = value;
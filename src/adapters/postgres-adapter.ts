@@ -1,4 +1,5 @@
-import { TraceAdapter, TraceData } from '../types';
+import { StoredTrace, ToolStats, ToolStatsQuery, TraceAdapter, TraceData, TraceFilter, TracePage, TraceQuery } from '../types';
+import { buildMetadata, ColumnType, decodeCursor, INDEXED_COLUMNS, pageSize, quoteIdentifier, quoteTableName, toIsoString, toPage, toStoredTrace, TRACE_COLUMNS } from './trace-query';
 
 /**
  * Create the table in the database using the following SQL:
@@ -13,7 +14,7 @@ CREATE TABLE IF NOT EXISTS trace_events (
   request JSONB,
   response JSONB,
   duration INTEGER,
-  trace_id TEXT,
+  trace_id TEXT, -- JSON-RPC id of the traced message
   session_id TEXT NOT NULL,
   user_id TEXT,
   user_name TEXT,
@@ -44,7 +45,8 @@ export interface PostgresConfig {
   dsn: string;
 
   /**
-   * Optional name of the table to insert trace events into.
+   * Optional name of the table to insert trace events into, optionally
+   * schema-qualified (e.g. 'analytics.trace_events').
    * Defaults to 'trace_events'.
    */
   tableName?: string;
@@ -60,28 +62,116 @@ export interface PostgresConfig {
    * Defaults to 5000ms (5 seconds).
    */
   flushInterval?: number;
+
+  /**
+   * Optional maximum number of pooled connections. Defaults to 10.
+   */
+  poolSize?: number;
+
+  /**
+   * Create the table and its indexes if missing, and add any column an older
+   * version of the table lacks, before the first insert. Defaults to false.
+   */
+  createTable?: boolean;
+
+  /**
+   * Optional maximum number of events held while the database is unreachable.
+   * The oldest events are dropped beyond it. Defaults to 10000.
+   */
+  maxBufferSize?: number;
+
+  /**
+   * Optional delay in milliseconds before the first retry of a failed batch.
+   * It doubles with each failure, up to `maxRetryDelay`. Defaults to 1000ms.
+   */
+  retryDelay?: number;
+
+  /**
+   * Optional upper bound in milliseconds of the retry delay. Defaults to 30000ms.
+   */
+  maxRetryDelay?: number;
 }
 
+/**
+ * Buffer and delivery counters of a `PostgresTraceAdapter`.
+ */
+export interface PostgresAdapterStats {
+  /** Events waiting to be inserted */
+  buffered: number;
+  /** Events inserted since the adapter was created */
+  inserted: number;
+  /** Events dropped because the buffer was full or the database rejected them */
+  dropped: number;
+  /** Consecutive failed insert attempts; 0 while inserts succeed */
+  failedAttempts: number;
+}
+
+/**
+ * Column types of the trace table, as in the schema above.
+ */
+const COLUMN_TYPES: Record<ColumnType, string> = {
+  timestamp: 'TIMESTAMPTZ',
+  text: 'TEXT',
+  integer: 'INTEGER',
+  boolean: 'BOOLEAN',
+  json: 'JSONB',
+};
+
+/**
+ * Number of requests a row stands for: `1 / sample_rate` for sampled traces,
+ * 1 otherwise. The nested CASE keeps non-numeric values from being cast.
+ */
+const SAMPLE_WEIGHT = `COALESCE(CASE WHEN jsonb_typeof(metadata->'sample_rate') = 'number'
+  THEN 1 / NULLIF((metadata->>'sample_rate')::float8, 0) END, 1)`;
+
+/**
+ * SQLSTATE classes worth retrying: connection exceptions, insufficient
+ * resources, operator intervention (e.g. a restarting server) and
+ * transaction rollbacks such as serialization failures.
+ */
+const RETRYABLE_SQLSTATE_CLASSES = ['08', '53', '57', '40'];
+
 /**
  * A TraceAdapter implementation that writes trace events to a PostgreSQL table.
- * ⚠️ Assumes the table already exists — it does not create it automatically.
+ * The table must already exist unless `createTable` is set.
+ *
+ * Inserts go through a connection pool, which reconnects on its own. When the
+ * database is unreachable, failed batches are kept and retried with backoff,
+ * up to `maxBufferSize` events.
  *
  * Requires the `pg` package (PostgreSQL client for Node.js).
  */
 export class PostgresTraceAdapter implements TraceAdapter {
   private dsn: string;
   private tableName: string;
-  private client: any = null;
+  private pool: any = null;
   private batchSize: number;
   private flushInterval: number;
+  private poolSize: number;
+  private createTable: boolean;
+  private tableReady = false;
+  private maxBufferSize: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
   private buffer: TraceData[] = [];
   private flushTimer: NodeJS.Timeout | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private failedAttempts = 0;
+  private inserted = 0;
+  private dropped = 0;
+  private unreportedDrops = 0;
 
   constructor(config: PostgresConfig) {
     this.dsn = config.dsn;
     this.tableName = config.tableName || 'trace_events';
     this.batchSize = config.batchSize || 100;
     this.flushInterval = config.flushInterval || 5000;
+    this.poolSize = config.poolSize || 10;
+    this.createTable = config.createTable ?? false;
+    this.maxBufferSize = config.maxBufferSize || 10000;
+    this.retryDelay = config.retryDelay || 1000;
+    this.maxRetryDelay = config.maxRetryDelay || 30000;
 
     // Set up automatic flushing
     this.startFlushTimer();
@@ -99,33 +189,82 @@ export class PostgresTraceAdapter implements TraceAdapter {
   }
 
   /**
-   * Stops the automatic flush timer.
+   * Stops the automatic flush and retry timers.
    */
   private stopFlushTimer() {
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
       this.flushTimer = null;
     }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
   }
 
   /**
-   * Lazily initializes and returns the PostgreSQL client.
+   * Lazily creates and returns the connection pool, creating the table first
+   * if `createTable` is set.
    * Uses dynamic import for `pg` to avoid forcing a dependency.
    */
-  private async getClient() {
-    if (!this.client) {
+  private async getPool() {
+    if (!this.pool) {
+      let pg: any;
       try {
-        const pg = await import('pg');
-        this.client = new pg.Client({ connectionString: this.dsn });
-        await this.client.connect();
+        pg = await import('pg');
       } catch (error) {
-        console.error('[PostgresTraceAdapter] Failed to connect to PostgreSQL:', error);
+        console.error('[PostgresTraceAdapter] Failed to load pg:', error);
         throw new Error(
           'PostgresTraceAdapter requires the "pg" package. Install it using: npm install pg'
         );
       }
+
+      this.pool = new pg.Pool({ connectionString: this.dsn, max: this.poolSize });
+      // Without a listener, an idle connection dropped by the server would crash the process
+      this.pool.on('error', (error: Error) => {
+        console.error('[PostgresTraceAdapter] Idle connection error:', error);
+      });
+    }
+
+    if (this.createTable && !this.tableReady) {
+      await this.bootstrapTable();
+      this.tableReady = true;
+    }
+    return this.pool;
+  }
+
+  /**
+   * Creates the table and its indexes, and adds any column an older version of
+   * the table lacks.
+   */
+  private async bootstrapTable(): Promise<void> {
+    const table = quoteTableName(this.tableName);
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS ${table} (
+        id SERIAL PRIMARY KEY,
+        ${TRACE_COLUMNS.map(({ name, type, required }) => `${name} ${COLUMN_TYPES[type]}${required ? ' NOT NULL' : ''}`).join(',\n        ')}
+      )`,
+      // Postgres can't add a NOT NULL column without a default to a table that has rows
+      ...TRACE_COLUMNS.map(({ name, type }) => `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${name} ${COLUMN_TYPES[type]}`),
+      ...INDEXED_COLUMNS.map(column => {
+        const index = quoteIdentifier(`${unqualifiedName(this.tableName)}_${column}_idx`);
+        return `CREATE INDEX IF NOT EXISTS ${index} ON ${table} (${column})`;
+      }),
+    ];
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const statement of statements) {
+        await client.query(statement);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
     }
-    return this.client;
   }
 
   /**
@@ -162,40 +301,45 @@ export class PostgresTraceAdapter implements TraceAdapter {
       traceData.sdk_language ?? null,
       traceData.sdk_version ?? null,
       traceData.mcp_trace_version ?? null,
-      traceData.metadata ? JSON.stringify(traceData.metadata) : null
+      buildMetadata(traceData)
     ];
   }
 
   /**
-   * Performs a batch insert of trace events.
+   * Performs a batch insert of trace events. Returns false if the batch
+   * should be retried.
    */
-  private async performBatchInsert(events: TraceData[]): Promise<void> {
-    if (events.length === 0) return;
+  private async performBatchInsert(events: TraceData[]): Promise<boolean> {
+    if (events.length === 0) return true;
 
     try {
-      const client = await this.getClient();
+      const pool = await this.getPool();
 
       // Build the batch insert query
       const insertSQL = `
-        INSERT INTO ${this.tableName} (
-          timestamp, type, method, entity_name, request, response, duration,
-          trace_id, session_id, user_id, user_name, user_email,
-          client_id, client_name, client_version,
-          server_id, server_name, server_version,
-          is_error, error, ip_address, context,
-          sdk_language, sdk_version, mcp_trace_version, metadata
+        INSERT INTO ${quoteTableName(this.tableName)} (
+          ${TRACE_COLUMNS.map(({ name }) => name).join(', ')}
         ) VALUES ${events.map((_, index) => {
-        const baseIndex = index * 27;
-        return `(${Array.from({ length: 27 }, (_, i) => `$${baseIndex + i + 1}`).join(', ')})`;
+        const baseIndex = index * TRACE_COLUMNS.length;
+        return `(${TRACE_COLUMNS.map((_, i) => `$${baseIndex + i + 1}`).join(', ')})`;
       }).join(', ')}
       `;
 
       // Flatten all values into a single array
       const values = events.flatMap(event => this.traceDataToValues(event));
 
-      await client.query(insertSQL, values);
+      await pool.query(insertSQL, values);
+      this.inserted += events.length;
+      return true;
     } catch (error) {
-      console.error(`[PostgresTraceAdapter] Failed to batch insert into "${this.tableName}". Ensure the table exists.`, error);
+      if (isRetryable(error)) {
+        console.error(`[PostgresTraceAdapter] Failed to batch insert into "${this.tableName}"; will retry.`, error);
+        return false;
+      }
+
+      this.dropped += events.length;
+      console.error(`[PostgresTraceAdapter] "${this.tableName}" rejected a batch of ${events.length} events; dropped. Ensure the table exists.`, error);
+      return true;
     }
   }
 
@@ -209,44 +353,245 @@ export class PostgresTraceAdapter implements TraceAdapter {
   async export(traceData: TraceData): Promise<void> {
     // Add to buffer
     this.buffer.push(traceData);
+    this.trimBuffer();
 
-    // If buffer is full, flush immediately
-    if (this.buffer.length >= this.batchSize) {
+    // If buffer is full, flush immediately, unless waiting to retry
+    if (this.buffer.length >= this.batchSize && !this.retryTimer) {
       await this.flush();
     }
   }
 
   /**
-   * Flushes all buffered trace events to PostgreSQL in a single batch insert.
+   * Inserts all buffered trace events, in batches of `batchSize`. If the
+   * database can't be reached, the remaining events stay buffered and are
+   * retried with backoff.
    */
   async flush(): Promise<void> {
-    if (this.buffer.length === 0) {
-      return;
+    // Only one flush runs at a time; later callers wait for it
+    if (!this.flushing) {
+      this.flushing = this.drainBuffer().finally(() => {
+        this.flushing = null;
+      });
     }
+    return this.flushing;
+  }
 
-    // Create a copy of the buffer and clear it immediately to avoid race conditions
-    const eventsToInsert = [...this.buffer];
-    this.buffer = [];
+  getStats(): PostgresAdapterStats {
+    return {
+      buffered: this.buffer.length,
+      inserted: this.inserted,
+      dropped: this.dropped,
+      failedAttempts: this.failedAttempts,
+    };
+  }
 
-    // Perform the batch insert
-    await this.performBatchInsert(eventsToInsert);
+  /**
+   * Returns the traces of a session in the order they were recorded, up to
+   * `limit` (default 1000). Traces still buffered are not included.
+   */
+  async getSessionTimeline(sessionId: string, options: { limit?: number } = {}): Promise<StoredTrace[]> {
+    const pool = await this.getPool();
+    const { rows } = await pool.query(
+      `SELECT * FROM ${quoteTableName(this.tableName)} WHERE session_id = $1 ORDER BY timestamp, id LIMIT $2`,
+      [sessionId, options.limit ?? 1000]
+    );
+    return rows.map(toStoredTrace);
   }
 
   /**
-   * Closes the PostgreSQL connection and cleans up the client.
-   * Flushes any remaining buffered events before closing.
+   * Searches traces, newest first. Pass `next_cursor` back as `cursor` to
+   * fetch the following page.
+   */
+  async searchTraces(query: TraceQuery = {}): Promise<TracePage> {
+    const values: any[] = [];
+    const conditions = this.buildConditions(query, values);
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      values.push(cursor.timestamp, cursor.id);
+      conditions.push(`(timestamp, id) < ($${values.length - 1}, $${values.length})`);
+    }
+
+    const limit = pageSize(query.limit);
+    values.push(limit + 1);
+
+    const pool = await this.getPool();
+    const { rows } = await pool.query(
+      `SELECT * FROM ${quoteTableName(this.tableName)}
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY timestamp DESC, id DESC
+       LIMIT $${values.length}`,
+      values
+    );
+    return toPage(rows, limit);
+  }
+
+  /**
+   * Aggregates request count, error rate and latency percentiles per tool
+   * (or other entity of `method`) over UTC time buckets. Counts are
+   * extrapolated from the `sample_rate` of sampled requests.
+   */
+  async getToolStats(query: ToolStatsQuery = {}): Promise<ToolStats[]> {
+    const values: any[] = [query.interval ?? 'hour', query.method ?? 'tools/call'];
+    const conditions = [`type = 'request'`, 'method = $2', ...this.buildConditions({
+      from: query.from,
+      to: query.to,
+      entity_name: query.entity_name,
+    }, values)];
+
+    const pool = await this.getPool();
+    const { rows } = await pool.query(
+      `SELECT
+         to_char(date_trunc($1, timestamp AT TIME ZONE 'UTC'), 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') AS bucket,
+         COALESCE(entity_name, '') AS entity_name,
+         count(*)::int AS sampled_count,
+         sum(weight)::float8 AS weight,
+         COALESCE(sum(weight) FILTER (WHERE is_error), 0)::float8 AS error_weight,
+         (sum(duration * weight) / sum(weight) FILTER (WHERE duration IS NOT NULL))::float8 AS avg_duration,
+         percentile_cont(0.5) WITHIN GROUP (ORDER BY duration) AS p50_duration,
+         percentile_cont(0.95) WITHIN GROUP (ORDER BY duration) AS p95_duration,
+         percentile_cont(0.99) WITHIN GROUP (ORDER BY duration) AS p99_duration
+       FROM (
+         SELECT timestamp, entity_name, duration, is_error, ${SAMPLE_WEIGHT} AS weight
+         FROM ${quoteTableName(this.tableName)}
+         WHERE ${conditions.join(' AND ')}
+       ) AS requests
+       GROUP BY 1, 2
+       ORDER BY 1, 2`,
+      values
+    );
+
+    return rows.map((row: any) => ({
+      bucket: row.bucket,
+      entity_name: row.entity_name,
+      count: Math.round(row.weight),
+      error_count: Math.round(row.error_weight),
+      error_rate: row.error_weight / row.weight,
+      sampled_count: row.sampled_count,
+      avg_duration: row.avg_duration,
+      p50_duration: row.p50_duration,
+      p95_duration: row.p95_duration,
+      p99_duration: row.p99_duration,
+    }));
+  }
+
+  /**
+   * Turns a filter into SQL conditions, appending their parameters to `values`.
+   */
+  private buildConditions(filter: TraceFilter, values: any[]): string[] {
+    const conditions: string[] = [];
+    const add = (sql: string, value: any) => {
+      values.push(value);
+      conditions.push(sql.replace('?', `$${values.length}`));
+    };
+
+    if (filter.from !== undefined) add('timestamp >= ?', toIsoString(filter.from));
+    if (filter.to !== undefined) add('timestamp <= ?', toIsoString(filter.to));
+    if (filter.session_id !== undefined) add('session_id = ?', filter.session_id);
+    if (filter.method !== undefined) add('method = ?', filter.method);
+    if (filter.entity_name !== undefined) add('entity_name = ?', filter.entity_name);
+    if (filter.user_id !== undefined) add('user_id = ?', filter.user_id);
+    // Traces without `is_error` (session events) count as not failed
+    if (filter.is_error !== undefined) conditions.push(filter.is_error ? 'is_error' : 'is_error IS NOT TRUE');
+    return conditions;
+  }
+
+  private async drainBuffer(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.reportDrops();
+
+    while (this.buffer.length > 0) {
+      // Take the batch out first so events exported meanwhile queue behind it
+      const batch = this.buffer.splice(0, this.batchSize);
+
+      if (!(await this.performBatchInsert(batch))) {
+        this.buffer.unshift(...batch);
+        this.trimBuffer();
+        this.scheduleRetry();
+        return;
+      }
+    }
+
+    this.failedAttempts = 0;
+  }
+
+  private scheduleRetry(): void {
+    this.failedAttempts++;
+    const delay = Math.min(this.retryDelay * 2 ** (this.failedAttempts - 1), this.maxRetryDelay);
+
+    // Shutdown stops the timers; it makes its own final attempt
+    if (!this.flushTimer) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush().catch(error => {
+        console.error('[PostgresTraceAdapter] Retry failed:', error);
+      });
+    }, delay);
+  }
+
+  /**
+   * Drops the oldest events beyond `maxBufferSize`.
+   */
+  private trimBuffer(): void {
+    const excess = this.buffer.length - this.maxBufferSize;
+    if (excess > 0) {
+      this.buffer.splice(0, excess);
+      this.dropped += excess;
+      this.unreportedDrops += excess;
+    }
+  }
+
+  /**
+   * Logs buffer overflow drops once per flush rather than once per event.
+   */
+  private reportDrops(): void {
+    if (this.unreportedDrops > 0) {
+      console.warn(`[PostgresTraceAdapter] Buffer full — ${this.unreportedDrops} events dropped (${this.dropped} in total).`);
+      this.unreportedDrops = 0;
+    }
+  }
+
+  /**
+   * Closes the connection pool.
+   * Flushes any remaining buffered events before closing; events that still
+   * can't be inserted are dropped.
    */
   async shutdown(): Promise<void> {
-    // Stop the flush timer
+    // Stop the flush and retry timers
     this.stopFlushTimer();
 
     // Flush any remaining events
     await this.flush();
+    if (this.buffer.length > 0) {
+      this.dropped += this.buffer.length;
+      console.warn(`[PostgresTraceAdapter] Shutting down with ${this.buffer.length} events not inserted; dropped.`);
+      this.buffer = [];
+    }
 
-    // Close the database connection
-    if (this.client) {
-      await this.client.end();
-      this.client = null;
+    // Close the connection pool
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
     }
   }
 }
+
+function unqualifiedName(name: string): string {
+  return name.slice(name.lastIndexOf('.') + 1);
+}
+
+/**
+ * Connection failures are retried; errors about the data or the table are not,
+ * since retrying them would fail the same way.
+ */
+function isRetryable(error: any): boolean {
+  // Errors reported by the server carry a severity and a SQLSTATE code;
+  // anything else (ECONNREFUSED, connection timeouts, ...) never reached it
+  if (!error?.severity || typeof error.code !== 'string') {
+    return true;
+  }
+  return RETRYABLE_SQLSTATE_CLASSES.includes(error.code.slice(0, 2));
+}
@@ -0,0 +1,319 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { TraceAdapter, TraceData } from '../types';
+import { buildMetadata, ColumnType, INDEXED_COLUMNS, quoteIdentifier, TRACE_COLUMNS } from './trace-query';
+
+export interface SqliteConfig {
+  /**
+   * Path of the database file, created if missing. Use ':memory:' for an
+   * in-memory database.
+   */
+  filename: string;
+
+  /**
+   * Optional name of the table to insert trace events into.
+   * Defaults to 'trace_events'.
+   */
+  tableName?: string;
+
+  /**
+   * Optional batch size for bulk inserts. When this many events are buffered,
+   * they will be inserted in a single transaction. Defaults to 100.
+   */
+  batchSize?: number;
+
+  /**
+   * Optional timeout in milliseconds to force flush buffered events.
+   * Defaults to 5000ms (5 seconds).
+   */
+  flushInterval?: number;
+
+  /**
+   * Optional number of days to keep trace events for. Older rows are deleted
+   * on startup and then every hour. Defaults to keeping them forever.
+   */
+  retentionDays?: number;
+}
+
+/**
+ * SQLite types of the trace table's columns. Timestamps are ISO 8601 text, which
+ * sorts chronologically, and JSON is stored as text.
+ */
+const COLUMN_TYPES: Record<ColumnType, string> = {
+  timestamp: 'TEXT',
+  text: 'TEXT',
+  integer: 'INTEGER',
+  boolean: 'INTEGER',
+  json: 'TEXT',
+};
+
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * A TraceAdapter implementation that writes trace events to an embedded SQLite
+ * database, for single-node deployments and local development.
+ *
+ * The database is opened when the adapter is created: the table and its
+ * indexes are created, and columns added in later versions are added to an
+ * existing table. Await `init()` to fail fast if that didn't work. JSON fields
+ * are stored as text and can be queried with SQLite's JSON functions.
+ *
+ * Requires the `better-sqlite3` package.
+ */
+export class SqliteTraceAdapter implements TraceAdapter {
+  private filename: string;
+  private tableName: string;
+  private batchSize: number;
+  private flushInterval: number;
+  private retentionDays?: number;
+  private db: BetterSqlite3.Database | null = null;
+  private ready: Promise<void>;
+  private insertBatch: ((events: TraceData[]) => void) | null = null;
+  private buffer: TraceData[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: SqliteConfig) {
+    this.filename = config.filename;
+    this.tableName = config.tableName || 'trace_events';
+    this.batchSize = config.batchSize || 100;
+    this.flushInterval = config.flushInterval || 5000;
+    this.retentionDays = config.retentionDays;
+
+    if (this.retentionDays !== undefined && !(this.retentionDays > 0)) {
+      throw new Error('retentionDays must be a positive number of days');
+    }
+
+    // Open the database right away, so a missing package or a failed
+    // migration is reported on startup rather than on the first insert
+    this.ready = this.open();
+    this.ready.catch(error => {
+      console.error('[SqliteTraceAdapter] Failed to open the database:', error);
+    });
+
+    // Set up automatic flushing
+    this.startFlushTimer();
+
+    if (this.retentionDays !== undefined) {
+      this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL);
+      this.pruneTimer.unref();
+    }
+  }
+
+  /**
+   * Waits until the database is open and its schema is up to date. Rejects if
+   * that failed, e.g. because `better-sqlite3` is missing or the table couldn't
+   * be migrated.
+   */
+  async init(): Promise<void> {
+    await this.ready;
+  }
+
+  /**
+   * Starts the automatic flush timer.
+   */
+  private startFlushTimer() {
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(error => {
+        console.error('[SqliteTraceAdapter] Auto-flush failed:', error);
+      });
+    }, this.flushInterval);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Stops the automatic flush and prune timers.
+   */
+  private stopTimers() {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  /**
+   * Opens the database, brings its schema up to date and deletes trace events
+   * past `retentionDays`.
+   * Uses dynamic import for `better-sqlite3` to avoid forcing a dependency.
+   */
+  private async open(): Promise<void> {
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import('better-sqlite3')).default;
+    } catch (error) {
+      console.error('[SqliteTraceAdapter] Failed to load better-sqlite3:', error);
+      throw new Error(
+        'SqliteTraceAdapter requires the "better-sqlite3" package. Install it using: npm install better-sqlite3'
+      );
+    }
+
+    const db = new Database(this.filename);
+    try {
+      db.pragma('journal_mode = WAL');
+      db.pragma('synchronous = NORMAL');
+      this.migrate(db);
+
+      const table = quoteIdentifier(this.tableName);
+      const insert = db.prepare(
+        `INSERT INTO ${table} (${TRACE_COLUMNS.map(({ name }) => name).join(', ')}) ` +
+        `VALUES (${TRACE_COLUMNS.map(() => '?').join(', ')})`
+      );
+      this.insertBatch = db.transaction((events: TraceData[]) => {
+        for (const event of events) {
+          insert.run(this.traceDataToValues(event));
+        }
+      });
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+
+    this.db = db;
+    this.prune();
+  }
+
+  /**
+   * Creates the table and its indexes, and adds any column an older version of
+   * the table lacks.
+   */
+  private migrate(db: BetterSqlite3.Database): void {
+    const table = quoteIdentifier(this.tableName);
+
+    db.transaction(() => {
+      db.exec(`CREATE TABLE IF NOT EXISTS ${table} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ${TRACE_COLUMNS.map(({ name, type, required }) => `${name} ${COLUMN_TYPES[type]}${required ? ' NOT NULL' : ''}`).join(',\n        ')}
+      )`);
+
+      const existing = new Set(
+        (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name)
+      );
+      for (const { name, type } of TRACE_COLUMNS) {
+        if (!existing.has(name)) {
+          // SQLite can't add a NOT NULL column without a default to a table that has rows
+          db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${COLUMN_TYPES[type]}`);
+        }
+      }
+
+      for (const column of INDEXED_COLUMNS) {
+        const index = quoteIdentifier(`${this.tableName}_${column}_idx`);
+        db.exec(`CREATE INDEX IF NOT EXISTS ${index} ON ${table} (${column})`);
+      }
+    })();
+  }
+
+  /**
+   * Converts a single trace data object to values array for SQL insertion.
+   */
+  private traceDataToValues(traceData: TraceData): any[] {
+    return [
+      traceData.timestamp,
+      traceData.type,
+      traceData.method ?? null,
+      traceData.entity_name ?? null,
+      traceData.request ? JSON.stringify(traceData.request) : null,
+      traceData.response !== undefined
+        ? typeof traceData.response === 'object'
+          ? JSON.stringify(traceData.response)
+          : String(traceData.response)
+        : null,
+      traceData.duration ?? null,
+      traceData.id !== undefined ? String(traceData.id) : null,
+      traceData.session_id,
+      traceData.user_id ?? null,
+      traceData.user_name ?? null,
+      traceData.user_email ?? null,
+      traceData.client_id ?? null,
+      traceData.client_name ?? null,
+      traceData.client_version ?? null,
+      traceData.server_id ?? null,
+      traceData.server_name ?? null,
+      traceData.server_version ?? null,
+      traceData.is_error === undefined ? null : traceData.is_error ? 1 : 0,
+      traceData.error ?? null,
+      traceData.ip_address ?? null,
+      traceData.context ?? null,
+      traceData.sdk_language ?? null,
+      traceData.sdk_version ?? null,
+      traceData.mcp_trace_version ?? null,
+      buildMetadata(traceData)
+    ];
+  }
+
+  /**
+   * Inserts a batch of trace events in a single transaction.
+   */
+  private async performBatchInsert(events: TraceData[]): Promise<void> {
+    if (events.length === 0) return;
+
+    try {
+      await this.ready;
+      this.insertBatch!(events);
+    } catch (error) {
+      console.error(`[SqliteTraceAdapter] Failed to batch insert into "${this.tableName}".`, error);
+    }
+  }
+
+  /**
+   * Deletes trace events older than `retentionDays`.
+   */
+  private prune(): void {
+    if (this.retentionDays === undefined || !this.db) return;
+
+    try {
+      const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+      this.db.prepare(`DELETE FROM ${quoteIdentifier(this.tableName)} WHERE timestamp < ?`).run(cutoff);
+    } catch (error) {
+      console.error('[SqliteTraceAdapter] Failed to prune old trace events:', error);
+    }
+  }
+
+  /**
+   * Adds a trace event to the buffer for batch insertion.
+   * Events are automatically flushed when the buffer reaches batchSize
+   * or when the flush interval expires.
+   *
+   * @param traceData - The trace metadata to persist
+   */
+  async export(traceData: TraceData): Promise<void> {
+    this.buffer.push(traceData);
+
+    if (this.buffer.length >= this.batchSize) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Flushes all buffered trace events to SQLite in a single transaction.
+   */
+  async flush(): Promise<void> {
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const eventsToInsert = [...this.buffer];
+    this.buffer = [];
+
+    await this.performBatchInsert(eventsToInsert);
+  }
+
+  /**
+   * Flushes any remaining buffered events and closes the database.
+   */
+  async shutdown(): Promise<void> {
+    this.stopTimers();
+
+    await this.flush();
+    // The database may still be opening if nothing was exported
+    await this.ready.catch(() => undefined);
+
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      this.insertBatch = null;
+    }
+  }
+}
@@ -1,4 +1,5 @@
-import { TraceAdapter, TraceData } from '../types';
+import { StoredTrace, ToolStats, ToolStatsQuery, TraceAdapter, TraceData, TraceFilter, TracePage, TraceQuery } from '../types';
+import { aggregateToolStats, buildMetadata, decodeCursor, pageSize, toIsoString, toPage, toStoredTrace } from './trace-query';
 
 /**
  * Create the table in Supabase using the following SQL:
@@ -13,7 +14,7 @@ CREATE TABLE IF NOT EXISTS trace_events (
   request JSONB,
   response JSONB,
   duration INTEGER,
-  trace_id TEXT,
+  trace_id TEXT, -- JSON-RPC id of the traced message
   session_id TEXT NOT NULL,
   user_id TEXT,
   user_name TEXT,
@@ -48,6 +49,11 @@ export interface SupabaseConfig {
     tableName?: string;
 }
 
+/**
+ * Rows fetched per request when aggregating stats; Supabase caps responses at 1000 rows by default.
+ */
+const STATS_PAGE_SIZE = 1000;
+
 /**
  * A TraceAdapter that writes trace logs to a Supabase Postgres table via its API.
  * ⚠️ Requires a valid Supabase client instance and an existing table.
@@ -101,7 +107,7 @@ export class SupabaseTraceAdapter implements TraceAdapter {
                         sdk_language: traceData.sdk_language ?? null,
                         sdk_version: traceData.sdk_version ?? null,
                         mcp_trace_version: traceData.mcp_trace_version ?? null,
-                        metadata: traceData.metadata ? JSON.stringify(traceData.metadata) : null
+                        metadata: buildMetadata(traceData)
                     }
                 ]);
 
@@ -113,6 +119,99 @@ export class SupabaseTraceAdapter implements TraceAdapter {
         }
     }
 
+    /**
+     * Returns the traces of a session in the order they were recorded, up to
+     * `limit` (default 1000).
+     */
+    async getSessionTimeline(sessionId: string, options: { limit?: number } = {}): Promise<StoredTrace[]> {
+        const { data, error } = await this.supabaseClient
+            .from(this.tableName)
+            .select('*')
+            .eq('session_id', sessionId)
+            .order('timestamp', { ascending: true })
+            .order('id', { ascending: true })
+            .limit(options.limit ?? 1000);
+
+        if (error) {
+            throw error;
+        }
+        return (data ?? []).map(toStoredTrace);
+    }
+
+    /**
+     * Searches traces, newest first. Pass `next_cursor` back as `cursor` to
+     * fetch the following page.
+     */
+    async searchTraces(query: TraceQuery = {}): Promise<TracePage> {
+        const limit = pageSize(query.limit);
+        let request = this.applyFilter(this.supabaseClient.from(this.tableName).select('*'), query);
+        if (query.cursor) {
+            const cursor = decodeCursor(query.cursor);
+            request = request.or(
+                `timestamp.lt."${cursor.timestamp}",and(timestamp.eq."${cursor.timestamp}",id.lt.${cursor.id})`
+            );
+        }
+
+        const { data, error } = await request
+            .order('timestamp', { ascending: false })
+            .order('id', { ascending: false })
+            .limit(limit + 1);
+
+        if (error) {
+            throw error;
+        }
+        return toPage(data ?? [], limit);
+    }
+
+    /**
+     * Aggregates request count, error rate and latency percentiles per tool
+     * (or other entity of `method`) over UTC time buckets. Counts are
+     * extrapolated from the `sample_rate` of sampled requests.
+     *
+     * The API can't compute percentiles, so the matching requests are fetched
+     * page by page and aggregated here; keep the time range narrow on busy tables.
+     */
+    async getToolStats(query: ToolStatsQuery = {}): Promise<ToolStats[]> {
+        const rows: any[] = [];
+        for (let offset = 0; ; offset += STATS_PAGE_SIZE) {
+            const request = this.applyFilter(
+                this.supabaseClient
+                    .from(this.tableName)
+                    .select('id, timestamp, entity_name, duration, is_error, metadata')
+                    .eq('type', 'request')
+                    .eq('method', query.method ?? 'tools/call'),
+                { from: query.from, to: query.to, entity_name: query.entity_name }
+            );
+            const { data, error } = await request
+                .order('id', { ascending: true })
+                .range(offset, offset + STATS_PAGE_SIZE - 1);
+
+            if (error) {
+                throw error;
+            }
+            rows.push(...(data ?? []));
+            if (!data || data.length < STATS_PAGE_SIZE) {
+                break;
+            }
+        }
+
+        return aggregateToolStats(rows, query.interval ?? 'hour');
+    }
+
+    private applyFilter(request: any, filter: TraceFilter): any {
+        if (filter.from !== undefined) request = request.gte('timestamp', toIsoString(filter.from));
+        if (filter.to !== undefined) request = request.lte('timestamp', toIsoString(filter.to));
+        if (filter.session_id !== undefined) request = request.eq('session_id', filter.session_id);
+        if (filter.method !== undefined) request = request.eq('method', filter.method);
+        if (filter.entity_name !== undefined) request = request.eq('entity_name', filter.entity_name);
+        if (filter.user_id !== undefined) request = request.eq('user_id', filter.user_id);
+        // Traces without `is_error` (session events) count as not failed
+        if (filter.is_error !== undefined) {
+            request = filter.is_error ? request.eq('is_error', true) : request.not('is_error', 'is', true);
+        }
+        return request;
+    }
+
     /**
      * Supabase writes are immediate; nothing to flush.
      */
@@ -0,0 +1,294 @@
+import { StatsInterval, StoredTrace, ToolStats, TraceData, TracePage } from '../types';
+
+/**
+ * Helpers shared by the database adapters: the columns of the trace table,
+ * how traces are stored in it and how the read methods turn rows back into
+ * traces.
+ */
+
+export type ColumnType = 'timestamp' | 'text' | 'integer' | 'boolean' | 'json';
+
+/**
+ * Columns of the trace table, besides its `id` primary key. Each adapter maps
+ * the types to its database's.
+ */
+export const TRACE_COLUMNS: { name: string; type: ColumnType; required?: boolean }[] = [
+  { name: 'timestamp', type: 'timestamp', required: true },
+  { name: 'type', type: 'text', required: true },
+  { name: 'method', type: 'text' },
+  { name: 'entity_name', type: 'text' },
+  { name: 'request', type: 'json' },
+  { name: 'response', type: 'json' },
+  { name: 'duration', type: 'integer' },
+  { name: 'trace_id', type: 'text' },
+  { name: 'session_id', type: 'text', required: true },
+  { name: 'user_id', type: 'text' },
+  { name: 'user_name', type: 'text' },
+  { name: 'user_email', type: 'text' },
+  { name: 'client_id', type: 'text' },
+  { name: 'client_name', type: 'text' },
+  { name: 'client_version', type: 'text' },
+  { name: 'server_id', type: 'text' },
+  { name: 'server_name', type: 'text' },
+  { name: 'server_version', type: 'text' },
+  { name: 'is_error', type: 'boolean' },
+  { name: 'error', type: 'text' },
+  { name: 'ip_address', type: 'text' },
+  { name: 'context', type: 'text' },
+  { name: 'sdk_language', type: 'text' },
+  { name: 'sdk_version', type: 'text' },
+  { name: 'mcp_trace_version', type: 'text' },
+  { name: 'metadata', type: 'json' },
+];
+
+export const INDEXED_COLUMNS = ['session_id', 'timestamp', 'method'];
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+const TEXT_COLUMNS = [
+  'method', 'entity_name', 'user_id', 'user_name', 'user_email', 'client_id',
+  'client_name', 'client_version', 'server_id', 'server_name', 'server_version', 'error',
+  'ip_address', 'context', 'sdk_language', 'sdk_version', 'mcp_trace_version',
+] as const;
+
+/**
+ * Quotes a single identifier, such as a column, index or unqualified table name.
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quotes a table name, keeping an optional schema prefix.
+ */
+export function quoteTableName(name: string): string {
+  return name.split('.').map(quoteIdentifier).join('.');
+}
+
+/**
+ * Trace fields without a column of their own that `toStoredTrace` reads back
+ * from the metadata. The `trace_id` column predates W3C trace context and holds
+ * the JSON-RPC id, so the W3C ids are among them.
+ */
+const METADATA_FIELDS = ['trace_id', 'span_id', 'parent_span_id', 'direction', 'status', 'error_code'] as const;
+
+/**
+ * The table has no columns for handler annotations, events, child spans, the
+ * sample rate, the session summary or the fields in `METADATA_FIELDS`, so they
+ * are stored alongside the metadata.
+ */
+export function buildMetadata(traceData: TraceData): string | null {
+  const { metadata, annotations, events, spans, sample_rate, session_summary } = traceData;
+  const fields = METADATA_FIELDS.filter(field => traceData[field] !== undefined);
+  if (!annotations && !events && !spans && sample_rate === undefined && !session_summary && fields.length === 0) {
+    return metadata ? JSON.stringify(metadata) : null;
+  }
+
+  const stored: Record<string, any> = { ...metadata, annotations, events, spans, sample_rate, session_summary };
+  for (const field of fields) {
+    stored[field] = traceData[field];
+  }
+  return JSON.stringify(stored);
+}
+
+/**
+ * Number of requests a recorded trace stands for, given the `sample_rate` kept
+ * in its metadata. Traces recorded without sampling count once.
+ */
+export function sampleWeight(metadata: any): number {
+  const parsed = parseJson(metadata);
+  const sampleRate = parsed?.sample_rate;
+  return typeof sampleRate === 'number' && sampleRate > 0 ? 1 / sampleRate : 1;
+}
+
+export interface TraceCursor {
+  timestamp: string;
+  id: number;
+}
+
+/**
+ * Converts a row of the trace table into a `StoredTrace`.
+ */
+export function toStoredTrace(row: Record<string, any>): StoredTrace {
+  const trace: StoredTrace = {
+    id: Number(row.id),
+    timestamp: toIsoString(row.timestamp),
+    type: row.type,
+    session_id: row.session_id,
+  };
+
+  for (const column of TEXT_COLUMNS) {
+    if (row[column] !== null && row[column] !== undefined) {
+      trace[column] = String(row[column]);
+    }
+  }
+  if (row.trace_id !== null && row.trace_id !== undefined) {
+    trace.request_id = String(row.trace_id);
+  }
+  if (row.duration !== null && row.duration !== undefined) {
+    trace.duration = Number(row.duration);
+  }
+  if (row.is_error !== null && row.is_error !== undefined) {
+    trace.is_error = Boolean(row.is_error);
+  }
+
+  trace.request = parseJson(row.request);
+  trace.response = parseJson(row.response);
+  trace.metadata = parseJson(row.metadata);
+  for (const field of METADATA_FIELDS) {
+    if (trace.metadata?.[field] !== undefined) {
+      (trace as any)[field] = trace.metadata[field];
+    }
+  }
+  return trace;
+}
+
+/**
+ * The adapters insert JSON columns as serialized strings; through the
+ * Supabase API they come back as strings rather than objects.
+ */
+function parseJson(value: any): any {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export function toIsoString(value: Date | string): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date.toISOString();
+}
+
+export function pageSize(limit?: number): number {
+  if (limit === undefined) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE);
+}
+
+/**
+ * Builds a page from rows fetched with one more than `limit`, so whether
+ * another page follows is known without a count.
+ */
+export function toPage(rows: Record<string, any>[], limit: number): TracePage {
+  const traces = rows.slice(0, limit).map(toStoredTrace);
+  const last = traces[traces.length - 1];
+  return {
+    traces,
+    next_cursor: rows.length > limit && last ? encodeCursor({ timestamp: last.timestamp, id: last.id }) : undefined,
+  };
+}
+
+export function encodeCursor(cursor: TraceCursor): string {
+  return Buffer.from(JSON.stringify([cursor.timestamp, cursor.id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): TraceCursor {
+  try {
+    const [timestamp, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof timestamp === 'string' && Number.isInteger(id)) {
+      return { timestamp: toIsoString(timestamp), id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * Start of the UTC minute, hour or day a timestamp falls in.
+ */
+export function bucketStart(timestamp: string, interval: StatsInterval): string {
+  const iso = toIsoString(timestamp);
+  switch (interval) {
+    case 'minute':
+      return `${iso.slice(0, 16)}:00.000Z`;
+    case 'hour':
+      return `${iso.slice(0, 13)}:00:00.000Z`;
+    case 'day':
+      return `${iso.slice(0, 10)}T00:00:00.000Z`;
+  }
+}
+
+/**
+ * Aggregates request rows into per-bucket, per-entity stats, weighting each
+ * row by its sample rate and computing percentiles the way PostgreSQL's
+ * `percentile_cont` does.
+ */
+export function aggregateToolStats(
+  rows: { timestamp: string; entity_name: string | null; duration: number | null; is_error: boolean | null; metadata?: any }[],
+  interval: StatsInterval
+): ToolStats[] {
+  const groups = new Map<string, {
+    bucket: string;
+    entity_name: string;
+    durations: number[];
+    count: number;
+    weight: number;
+    errorWeight: number;
+    durationWeight: number;
+    weightedDuration: number;
+  }>();
+
+  for (const row of rows) {
+    const bucket = bucketStart(row.timestamp, interval);
+    const entityName = row.entity_name ?? '';
+    const key = `${bucket}\u0000${entityName}`;
+    const weight = sampleWeight(row.metadata);
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { bucket, entity_name: entityName, durations: [], count: 0, weight: 0, errorWeight: 0, durationWeight: 0, weightedDuration: 0 };
+      groups.set(key, group);
+    }
+    group.count++;
+    group.weight += weight;
+    if (row.is_error) group.errorWeight += weight;
+    if (row.duration !== null && row.duration !== undefined) {
+      group.durations.push(Number(row.duration));
+      group.durationWeight += weight;
+      group.weightedDuration += Number(row.duration) * weight;
+    }
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => a.bucket.localeCompare(b.bucket) || a.entity_name.localeCompare(b.entity_name))
+    .map(group => {
+      const durations = group.durations.sort((a, b) => a - b);
+      return {
+        bucket: group.bucket,
+        entity_name: group.entity_name,
+        count: Math.round(group.weight),
+        error_count: Math.round(group.errorWeight),
+        error_rate: group.errorWeight / group.weight,
+        sampled_count: group.count,
+        avg_duration: group.durationWeight > 0 ? group.weightedDuration / group.durationWeight : null,
+        p50_duration: percentile(durations, 0.5),
+        p95_duration: percentile(durations, 0.95),
+        p99_duration: percentile(durations, 0.99),
+      };
+    });
+}
+
+function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
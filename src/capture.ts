@@ -0,0 +1,81 @@
+import { omitPaths, parsePath, PathSegment, pickPaths } from './json-path';
+import { CapturePolicy, FieldCapture, TraceData } from './types';
+
+type CapturedField = 'request' | 'response';
+
+interface CompiledCapture {
+  include?: PathSegment[][];
+  exclude: PathSegment[][];
+}
+
+interface CompiledPolicy {
+  method?: string;
+  entity_name?: string;
+  request?: CompiledCapture | false;
+  response?: CompiledCapture | false;
+}
+
+/**
+ * Applies the `capture` option of `TraceMiddleware`: per method or tool
+ * policies deciding which parts of a request and response are recorded.
+ */
+export class CapturePolicies {
+  private policies: CompiledPolicy[];
+
+  constructor(policies: CapturePolicy[]) {
+    this.policies = policies.map(policy => ({
+      method: policy.method,
+      entity_name: policy.entity_name,
+      request: compileCapture(policy.request),
+      response: compileCapture(policy.response),
+    }));
+  }
+
+  /**
+   * Returns the request and response of a trace as its policies allow.
+   */
+  apply(traceData: TraceData): Pick<TraceData, CapturedField> {
+    return {
+      request: this.applyField(traceData, 'request'),
+      response: this.applyField(traceData, 'response'),
+    };
+  }
+
+  private applyField(traceData: TraceData, field: CapturedField): any {
+    const value = traceData[field];
+    if (value === undefined) {
+      return value;
+    }
+
+    // The first matching policy that sets this field decides it
+    const policy = this.policies.find(policy =>
+      policy[field] !== undefined &&
+      (policy.method === undefined || policy.method === traceData.method) &&
+      (policy.entity_name === undefined || policy.entity_name === traceData.entity_name)
+    );
+    const capture = policy?.[field];
+    if (capture === undefined) {
+      return value;
+    }
+    if (capture === false) {
+      return undefined;
+    }
+
+    const included = capture.include ? pickPaths(value, capture.include) : value;
+    return included === undefined ? undefined : omitPaths(included, capture.exclude);
+  }
+}
+
+function compileCapture(capture: boolean | FieldCapture | undefined): CompiledCapture | false | undefined {
+  if (capture === undefined || capture === false) {
+    return capture;
+  }
+  if (capture === true) {
+    return { exclude: [] };
+  }
+
+  return {
+    include: capture.include?.map(parsePath),
+    exclude: (capture.exclude ?? []).map(parsePath),
+  };
+}
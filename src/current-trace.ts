@@ -0,0 +1,163 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { generateSpanId } from './trace-context';
+import { TraceData, TraceEvent, TraceSpan } from './types';
+
+/**
+ * Events and spans kept per request, so a handler that loops forever can't
+ * grow a trace without bound.
+ */
+const MAX_RECORDED_ITEMS = 1000;
+
+const storage = new AsyncLocalStorage<ActiveTrace>();
+
+/**
+ * Returns the trace of the request whose handler is running, or undefined
+ * outside a traced request handler.
+ *
+ * ```ts
+ * server.registerTool("search", { inputSchema: { query: z.string() } }, async ({ query }) => {
+ *   const trace = getCurrentTrace();
+ *   trace?.annotate("tenant", tenantId);
+ *
+ *   const span = trace?.startSpan("db.query", { table: "documents" });
+ *   try {
+ *     return await search(query);
+ *   } finally {
+ *     span?.end();
+ *   }
+ * });
+ * ```
+ */
+export function getCurrentTrace(): ActiveTrace | undefined {
+  return storage.getStore();
+}
+
+export function runWithTrace<T>(trace: ActiveTrace, callback: () => T): T {
+  return storage.run(trace, callback);
+}
+
+/**
+ * Handle on a request that is still being traced. Annotations, events and
+ * spans are exported with the request's trace once it completes; anything
+ * recorded after that is ignored.
+ */
+export class ActiveTrace {
+  private ended = false;
+
+  constructor(private traceData: TraceData) {}
+
+  get traceId(): string | undefined {
+    return this.traceData.trace_id;
+  }
+
+  get spanId(): string | undefined {
+    return this.traceData.span_id;
+  }
+
+  /**
+   * Attaches a key/value pair to the trace's `annotations`.
+   */
+  annotate(key: string, value: any): void {
+    if (this.ended) return;
+
+    this.traceData.annotations = { ...this.traceData.annotations, [key]: value };
+  }
+
+  /**
+   * Records a timestamped event on the trace.
+   */
+  addEvent(name: string, attributes?: Record<string, any>): void {
+    if (this.ended) return;
+
+    const events = this.traceData.events ?? [];
+    if (events.length >= MAX_RECORDED_ITEMS) return;
+
+    events.push({ name, timestamp: new Date().toISOString(), attributes });
+    this.traceData.events = events;
+  }
+
+  /**
+   * Starts a child span of the request. Call `end()` on it when the step is done.
+   */
+  startSpan(name: string, attributes?: Record<string, any>): ActiveSpan {
+    return this.openSpan(name, this.traceData.span_id, attributes);
+  }
+
+  /**
+   * Stops recording and ends any span left open at the request's end.
+   */
+  end(now = Date.now()): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    for (const span of this.traceData.spans ?? []) {
+      if (span.end_time === undefined) {
+        finishSpan(span, now);
+      }
+    }
+  }
+
+  /** @internal */
+  openSpan(name: string, parentSpanId: string | undefined, attributes?: Record<string, any>): ActiveSpan {
+    const span: TraceSpan = {
+      name,
+      span_id: generateSpanId(),
+      parent_span_id: parentSpanId,
+      start_time: new Date().toISOString(),
+      attributes: attributes ? { ...attributes } : undefined,
+    };
+
+    const spans = this.traceData.spans ?? [];
+    if (!this.ended && spans.length < MAX_RECORDED_ITEMS) {
+      spans.push(span);
+      this.traceData.spans = spans;
+    }
+
+    return new ActiveSpan(span, this);
+  }
+}
+
+/**
+ * A timed step inside a request handler, exported as a child span.
+ */
+export class ActiveSpan {
+  constructor(private span: TraceSpan, private trace: ActiveTrace) {}
+
+  get spanId(): string {
+    return this.span.span_id;
+  }
+
+  setAttribute(key: string, value: any): void {
+    if (this.span.end_time !== undefined) return;
+
+    this.span.attributes = { ...this.span.attributes, [key]: value };
+  }
+
+  /**
+   * Marks the span as failed.
+   */
+  recordError(error: unknown): void {
+    if (this.span.end_time !== undefined) return;
+
+    this.span.is_error = true;
+    this.span.error = error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Starts a span nested under this one.
+   */
+  startSpan(name: string, attributes?: Record<string, any>): ActiveSpan {
+    return this.trace.openSpan(name, this.span.span_id, attributes);
+  }
+
+  end(): void {
+    if (this.span.end_time !== undefined) return;
+
+    finishSpan(this.span, Date.now());
+  }
+}
+
+function finishSpan(span: TraceSpan, now: number): void {
+  span.end_time = new Date(now).toISOString();
+  span.duration = now - new Date(span.start_time).getTime();
+}
@@ -1,13 +1,21 @@
 // Main exports
 export { TraceMiddleware } from './middleware';
-export { LogFields, RedactFunction, TraceAdapter, TraceData, TraceMiddlewareOptions, User, IdentifyUser as UserFunction } from './types';
+export { ActiveSpan, ActiveTrace, getCurrentTrace } from './current-trace';
+export { createJwtUserIdentifier } from './jwt-identifier';
+export { TraceMetrics } from './metrics';
+export { Redactor } from './redaction';
+export { SessionInfo } from './session-registry';
+export { formatTraceparent, parseTraceparent, TraceContext } from './trace-context';
+export { TraceReader } from './trace-reader';
+export { CapturePolicy, EnrichContext, EnrichFunction, ErrorType, FieldCapture, JwtIdentifierOptions, LogFields, MetricsOptions, MetricsSnapshot, PayloadLimits, PiiDetector, ProgressEvent, ProgressSummary, RecordedSession, RedactFunction, RedactionAction, RedactionOptions, RedactionRule, RequestMetrics, RequestStatus, SamplingOptions, SamplingRule, ServerInfo, SessionSummary, ShouldTrace, StatsInterval, StoredTrace, ToolStats, ToolStatsQuery, TraceAdapter, TraceData, TraceDirection, TraceEvent, TraceFilter, TraceMiddlewareOptions, TracePage, TraceQuery, TraceReaderOptions, TraceSide, TraceSpan, TraceTransportOptions, User, IdentifyUser as UserFunction, UserIdentifier } from './types';
 
 // Adapters
 export { ConsoleAdapter } from './adapters/console-adapter';
 export { ContexaTraceAdapter } from './adapters/contexa-adapter';
-export { FileAdapter } from './adapters/file-adapter';
+export { FileAdapter, FileAdapterConfig } from './adapters/file-adapter';
 export { MultiAdapter } from './adapters/multi-adapters';
 export { OTLPAdapter, OTLPConfig } from './adapters/otlp-adapter';
-export { PostgresTraceAdapter } from './adapters/postgres-adapter';
+export { PostgresAdapterStats, PostgresConfig, PostgresTraceAdapter } from './adapters/postgres-adapter';
+export { SqliteConfig, SqliteTraceAdapter } from './adapters/sqlite-adapter';
 export { SupabaseConfig, SupabaseTraceAdapter } from './adapters/supabase-adapter';
 
@@ -0,0 +1,154 @@
+/**
+ * Dotted JSON paths such as `arguments.query` or `$.items[*].ssn`, as used by
+ * redaction rules and capture policies. `*` matches any key or array index.
+ */
+export type PathSegment = string;
+
+export function parsePath(path: string): PathSegment[] {
+  return path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\*|\d+)\]/g, '.$1')
+    .split('.')
+    .filter(segment => segment.length > 0);
+}
+
+/**
+ * Whether a concrete path (keys and indexes) matches a parsed pattern.
+ */
+export function matchesPath(pattern: PathSegment[], path: PathSegment[]): boolean {
+  return pattern.length === path.length &&
+    pattern.every((segment, index) => segment === '*' || segment === path[index]);
+}
+
+/**
+ * Returns a copy of `value` holding only what the given paths select, or
+ * undefined if none of them match.
+ */
+export function pickPaths(value: any, paths: PathSegment[][]): any {
+  let picked: any;
+  for (const path of paths) {
+    picked = merge(picked, pickPath(value, path));
+  }
+  return compact(picked);
+}
+
+/**
+ * Returns a copy of `value` without what the given paths select.
+ */
+export function omitPaths(value: any, paths: PathSegment[][]): any {
+  return paths.reduce((result, path) => path.length > 0 ? omitPath(result, path) : result, value);
+}
+
+function pickPath(value: any, path: PathSegment[]): any {
+  if (path.length === 0) {
+    return value;
+  }
+
+  const [segment, ...rest] = path;
+  if (Array.isArray(value)) {
+    // Picked elements keep their index until `compact`, so picks of the same array line up when merged
+    const result: any[] = new Array(value.length);
+    let found = false;
+    value.forEach((item, index) => {
+      if (segment !== '*' && segment !== String(index)) return;
+      const picked = pickPath(item, rest);
+      if (picked !== undefined) {
+        result[index] = picked;
+        found = true;
+      }
+    });
+    return found ? result : undefined;
+  }
+
+  if (isObject(value)) {
+    const result: Record<string, any> = {};
+    let found = false;
+    for (const [key, item] of Object.entries(value)) {
+      if (segment !== '*' && segment !== key) continue;
+      const picked = pickPath(item, rest);
+      if (picked !== undefined) {
+        result[key] = picked;
+        found = true;
+      }
+    }
+    return found ? result : undefined;
+  }
+
+  return undefined;
+}
+
+function omitPath(value: any, path: PathSegment[]): any {
+  const [segment, ...rest] = path;
+
+  if (Array.isArray(value)) {
+    const result: any[] = [];
+    value.forEach((item, index) => {
+      if (segment !== '*' && segment !== String(index)) {
+        result.push(item);
+      } else if (rest.length > 0) {
+        result.push(omitPath(item, rest));
+      }
+    });
+    return result;
+  }
+
+  if (isObject(value)) {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (segment !== '*' && segment !== key) {
+        result[key] = item;
+      } else if (rest.length > 0) {
+        result[key] = omitPath(item, rest);
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function merge(target: any, source: any): any {
+  if (target === undefined) return source;
+  if (source === undefined) return target;
+
+  if (Array.isArray(target) && Array.isArray(source)) {
+    const result: any[] = new Array(Math.max(target.length, source.length));
+    for (let index = 0; index < result.length; index++) {
+      if (index in target || index in source) {
+        result[index] = merge(target[index], source[index]);
+      }
+    }
+    return result;
+  }
+
+  if (isObject(target) && isObject(source)) {
+    const result: Record<string, any> = { ...target };
+    for (const [key, item] of Object.entries(source)) {
+      result[key] = merge(result[key], item);
+    }
+    return result;
+  }
+
+  return source;
+}
+
+function compact(value: any): any {
+  if (Array.isArray(value)) {
+    // `filter` skips the holes left by unpicked elements
+    return value.filter(() => true).map(compact);
+  }
+
+  if (isObject(value)) {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = compact(item);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,183 @@
+import { createPublicKey, KeyObject, constants, verify } from 'crypto';
+import { readFileSync } from 'fs';
+import { MessageExtraInfo } from '@modelcontextprotocol/sdk/types';
+import { JwtIdentifierOptions, User, UserIdentifier } from './types';
+
+interface Jwk {
+  kid?: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+interface JwtParts {
+  header: Record<string, any>;
+  claims: Record<string, any>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+/** Hash and padding for each supported JWS algorithm */
+const ALGORITHMS: Record<string, { hash: string | null; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: 'sha384', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: 'sha512', padding: constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' },
+  EdDSA: { hash: null },
+};
+
+/**
+ * Creates a `userIdentifier` that reads the user from the claims of a JWT
+ * bearer token, taken from `authInfo.token` (set by the SDK's bearer auth
+ * middleware) or from the `Authorization` header.
+ *
+ * Without `jwksPath` the token is decoded but not verified, which is only safe
+ * behind something that already verified it. With `jwksPath` the signature is
+ * checked against the keys in that local JWKS file, along with `exp`, `nbf` and
+ * the optional `issuer` and `audience`; tokens that fail are rejected.
+ *
+ * ```ts
+ * const tracer = new TraceMiddleware({
+ *   adapter,
+ *   userIdentifier: createJwtUserIdentifier({
+ *     claims: { user_id: 'sub', user_name: 'name', user_email: 'email' },
+ *     jwksPath: './jwks.json',
+ *     issuer: 'https://auth.example.com/',
+ *   }),
+ * });
+ * ```
+ */
+export function createJwtUserIdentifier(options: JwtIdentifierOptions = {}): UserIdentifier {
+  const claims = {
+    user_id: 'sub',
+    user_name: 'name',
+    user_email: 'email',
+    ...options.claims,
+  };
+  const clockTolerance = options.clockTolerance ?? 60;
+  let keys: Map<string | undefined, KeyObject> | undefined;
+
+  const loadKeys = () => {
+    if (!keys) {
+      const jwks = JSON.parse(readFileSync(options.jwksPath!, 'utf8')) as { keys?: Jwk[] };
+      keys = new Map();
+      for (const jwk of jwks.keys ?? []) {
+        if (jwk.use && jwk.use !== 'sig') continue;
+        keys.set(jwk.kid, createPublicKey({ key: jwk as any, format: 'jwk' }));
+      }
+    }
+    return keys;
+  };
+
+  return (extra: MessageExtraInfo) => {
+    const token = getBearerToken(extra);
+    if (!token) {
+      return undefined;
+    }
+
+    const jwt = decodeJwt(token);
+    if (options.jwksPath) {
+      verifySignature(jwt, loadKeys());
+      verifyClaims(jwt.claims, options, clockTolerance);
+    }
+
+    const user: Partial<User> = {};
+    for (const [field, claim] of Object.entries(claims) as [keyof User, string][]) {
+      const value = readClaim(jwt.claims, claim);
+      if (value !== undefined && value !== null) {
+        user[field] = String(value);
+      }
+    }
+    return Object.keys(user).length > 0 ? user : undefined;
+  };
+}
+
+function getBearerToken(extra: MessageExtraInfo): string | undefined {
+  if (extra.authInfo?.token) {
+    return extra.authInfo.token;
+  }
+
+  const header = extra.requestInfo?.headers?.['authorization'];
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value ? /^Bearer\s+(\S+)$/i.exec(value) : null;
+  return match?.[1];
+}
+
+function decodeJwt(token: string): JwtParts {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Bearer token is not a JWT');
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+      claims: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url'),
+    };
+  } catch {
+    throw new Error('Bearer token is not a valid JWT');
+  }
+}
+
+function verifySignature(jwt: JwtParts, keys: Map<string | undefined, KeyObject>): void {
+  const algorithm = ALGORITHMS[jwt.header.alg];
+  if (!algorithm) {
+    throw new Error(`Unsupported JWT algorithm: ${jwt.header.alg}`);
+  }
+
+  // A token without `kid` can only be matched when the JWKS holds a single key
+  const key = jwt.header.kid !== undefined
+    ? keys.get(jwt.header.kid)
+    : keys.size === 1 ? keys.values().next().value : undefined;
+  if (!key) {
+    throw new Error(`No JWKS key matches the JWT (kid: ${jwt.header.kid ?? 'none'})`);
+  }
+
+  const valid = verify(algorithm.hash, Buffer.from(jwt.signingInput), {
+    key,
+    padding: algorithm.padding,
+    saltLength: algorithm.padding !== undefined ? constants.RSA_PSS_SALTLEN_DIGEST : undefined,
+    dsaEncoding: algorithm.dsaEncoding,
+  }, jwt.signature);
+  if (!valid) {
+    throw new Error('JWT signature verification failed');
+  }
+}
+
+function verifyClaims(claims: Record<string, any>, options: JwtIdentifierOptions, clockTolerance: number): void {
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof claims.exp === 'number' && now > claims.exp + clockTolerance) {
+    throw new Error('JWT has expired');
+  }
+  if (typeof claims.nbf === 'number' && now < claims.nbf - clockTolerance) {
+    throw new Error('JWT is not valid yet');
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    throw new Error('JWT issuer does not match');
+  }
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new Error('JWT audience does not match');
+    }
+  }
+}
+
+/**
+ * Reads a claim by name, or by dotted path for nested claims such as `profile.email`.
+ */
+function readClaim(claims: Record<string, any>, claim: string): unknown {
+  if (claim in claims) {
+    return claims[claim];
+  }
+  return claim.split('.').reduce<any>((value, key) => value?.[key], claims);
+}
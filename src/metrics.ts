@@ -0,0 +1,179 @@
+import { MetricsOptions, MetricsSnapshot, RequestMetrics, TraceData } from './types';
+
+/** Request duration buckets in seconds */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Live counts a `TraceMiddleware` reports for its gauges.
+ */
+export interface MetricsSource {
+  activeSessions(): number;
+  pendingRequests(): number;
+}
+
+interface RequestSeries {
+  labels: RequestMetrics['labels'];
+  count: number;
+  durationSum: number;
+  bucketCounts: number[];
+}
+
+/**
+ * Minimal response interface shared by Node's `http.ServerResponse` and Express.
+ */
+interface MetricsResponse {
+  setHeader(name: string, value: string): unknown;
+  end(body: string): unknown;
+}
+
+/**
+ * In-process request metrics fed by `TraceMiddleware`. Pass an instance as the
+ * `metrics` option; every finished request is counted, whether or not sampling
+ * keeps its trace.
+ *
+ * ```ts
+ * const metrics = new TraceMetrics();
+ * const tracer = new TraceMiddleware({ adapter, metrics });
+ * app.get('/metrics', metrics.handler());
+ * ```
+ */
+export class TraceMetrics {
+  private prefix: string;
+  private buckets: number[];
+  private series = new Map<string, RequestSeries>();
+  private sources = new Set<MetricsSource>();
+
+  constructor(options: MetricsOptions = {}) {
+    this.prefix = options.prefix ?? 'mcp';
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(this.prefix)) {
+      throw new Error(`Invalid metrics prefix: ${this.prefix}`);
+    }
+    if (this.buckets.some(bucket => !(bucket > 0))) {
+      throw new Error('Metrics buckets must be positive numbers of seconds');
+    }
+  }
+
+  /**
+   * Counts a finished request. Other traces are ignored.
+   */
+  record(traceData: TraceData): void {
+    if (traceData.type !== 'request' || traceData.status === undefined || !traceData.method) {
+      return;
+    }
+
+    const labels = {
+      method: traceData.method,
+      entity: traceData.entity_name ?? '',
+      client: traceData.client_name ?? '',
+      status: traceData.is_error ? 'error' : 'ok',
+    };
+    const key = [labels.method, labels.entity, labels.client, labels.status].join('\u0000');
+
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, count: 0, durationSum: 0, bucketCounts: this.buckets.map(() => 0) };
+      this.series.set(key, series);
+    }
+
+    const seconds = (traceData.duration ?? 0) / 1000;
+    series.count++;
+    series.durationSum += seconds;
+    this.buckets.forEach((bucket, index) => {
+      if (seconds <= bucket) {
+        series!.bucketCounts[index]++;
+      }
+    });
+  }
+
+  /** @internal */
+  track(source: MetricsSource): void {
+    this.sources.add(source);
+  }
+
+  /** @internal */
+  untrack(source: MetricsSource): void {
+    this.sources.delete(source);
+  }
+
+  snapshot(): MetricsSnapshot {
+    let activeSessions = 0;
+    let pendingRequests = 0;
+    for (const source of this.sources) {
+      activeSessions += source.activeSessions();
+      pendingRequests += source.pendingRequests();
+    }
+
+    return {
+      requests: [...this.series.values()].map(series => ({
+        labels: { ...series.labels },
+        count: series.count,
+        duration_sum: series.durationSum,
+        duration_buckets: this.buckets.map((le, index) => ({ le, count: series.bucketCounts[index] })),
+      })),
+      active_sessions: activeSessions,
+      pending_requests: pendingRequests,
+    };
+  }
+
+  /**
+   * Renders the metrics in the Prometheus text exposition format.
+   */
+  toPrometheus(): string {
+    const snapshot = this.snapshot();
+    const requests = `${this.prefix}_requests_total`;
+    const duration = `${this.prefix}_request_duration_seconds`;
+    const lines: string[] = [];
+
+    lines.push(`# HELP ${requests} Finished MCP requests.`);
+    lines.push(`# TYPE ${requests} counter`);
+    for (const series of snapshot.requests) {
+      lines.push(`${requests}${formatLabels(series.labels)} ${series.count}`);
+    }
+
+    lines.push(`# HELP ${duration} MCP request duration in seconds.`);
+    lines.push(`# TYPE ${duration} histogram`);
+    for (const series of snapshot.requests) {
+      for (const bucket of series.duration_buckets) {
+        lines.push(`${duration}_bucket${formatLabels({ ...series.labels, le: String(bucket.le) })} ${bucket.count}`);
+      }
+      lines.push(`${duration}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${duration}_sum${formatLabels(series.labels)} ${series.duration_sum}`);
+      lines.push(`${duration}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+
+    lines.push(`# HELP ${this.prefix}_active_sessions MCP sessions currently open.`);
+    lines.push(`# TYPE ${this.prefix}_active_sessions gauge`);
+    lines.push(`${this.prefix}_active_sessions ${snapshot.active_sessions}`);
+
+    lines.push(`# HELP ${this.prefix}_pending_requests MCP requests waiting for a response.`);
+    lines.push(`# TYPE ${this.prefix}_pending_requests gauge`);
+    lines.push(`${this.prefix}_pending_requests ${snapshot.pending_requests}`);
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Request handler serving `toPrometheus()`, for Express or `http.createServer`.
+   */
+  handler(): (req: unknown, res: MetricsResponse) => void {
+    return (_req, res) => {
+      res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+      res.end(this.toPrometheus());
+    };
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
@@ -1,12 +1,22 @@
 // src/middleware/TraceMiddleware.ts
 
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol";
 import { Transport, TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport";
-import { JSONRPCMessage, JSONRPCRequest, JSONRPCResponse, MessageExtraInfo } from "@modelcontextprotocol/sdk/types";
+import { JSONRPCError, JSONRPCMessage, JSONRPCRequest, JSONRPCResponse, MessageExtraInfo } from "@modelcontextprotocol/sdk/types";
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { IdentifyUser, LogFields, RedactFunction, TraceAdapter, TraceData, TraceMiddlewareOptions } from "./types";
+import { CapturePolicies } from "./capture";
+import { ActiveTrace, runWithTrace } from "./current-trace";
+import { MetricsSource, TraceMetrics } from "./metrics";
+import { PayloadField, PayloadLimiter } from "./payload";
+import { Redactor } from "./redaction";
+import { Sampler } from "./sampler";
+import { SessionInfo, SessionRegistry } from "./session-registry";
+import { formatTraceparent, generateSpanId, generateTraceId, parseTraceparent, TraceContext } from "./trace-context";
+import { EnrichContext, EnrichFunction, IdentifyUser, LogFields, ProgressEvent, RedactFunction, RequestStatus, ServerInfo, ShouldTrace, TraceAdapter, TraceData, TraceDirection, TraceMiddlewareOptions, TraceSide, TraceTransportOptions, User, UserIdentifier } from "./types";
 
 /**
  * Gets version information from package.json files (cached for performance)
@@ -45,6 +55,46 @@ function getVersions() {
   }
 }
 
+/**
+ * Only the most recent progress events are kept per request; the summary still counts all of them.
+ */
+const MAX_PROGRESS_EVENTS = 100;
+
+/**
+ * Error of a failed tool result without text content, or whose text isn't logged.
+ */
+const TOOL_ERROR = 'Tool reported an error';
+
+/**
+ * The text content of a tool result, which a failed tool call reports as its error.
+ */
+function toolResultText(result: any): string {
+  return Array.isArray(result?.content)
+    ? result.content
+      .filter((item: any) => item?.type === 'text' && typeof item.text === 'string')
+      .map((item: any) => item.text)
+      .join('\n')
+    : '';
+}
+
+type ErrorInfo = Pick<TraceData, 'is_error' | 'error' | 'error_type' | 'error_code' | 'error_message' | 'error_data'>;
+
+/**
+ * The cached user of a session. `pending` is set while an async identifier runs.
+ */
+interface SessionIdentity {
+  key: string;
+  user?: Partial<User>;
+  pending?: Promise<void>;
+}
+
+/**
+ * Adapts a header-based `identifyUser` to a `UserIdentifier`.
+ */
+function fromHeaders(identifyUser: IdentifyUser): UserIdentifier {
+  return (extra) => extra.requestInfo?.headers ? identifyUser(extra.requestInfo.headers) : undefined;
+}
+
 /**
  * TraceMiddleware hooks into an MCP server and logs
  * all incoming/outgoing messages using the provided adapter.
@@ -86,28 +136,82 @@ function getVersions() {
  *   identifyUser: extractUser
  * });
  * ```
+ *
+ * Skipping messages (requests carrying `X-Ignore-Traces: true` are always skipped):
+ * ```ts
+ * const tracer = new TraceMiddleware({
+ *   adapter: new ConsoleAdapter(),
+ *   shouldTrace: (message) => !('method' in message && message.method === 'ping')
+ * });
+ * ```
  */
 
 export class TraceMiddleware {
   private adapter: TraceAdapter;
   private logFields: LogFields;
+  private capturePolicies?: CapturePolicies;
   private redact?: RedactFunction;
-  private identifyUser?: IdentifyUser;
-  private server!: Server;
+  private redactor?: Redactor;
+  private userIdentifier?: UserIdentifier;
+  private identities = new Map<string, SessionIdentity>();
+  private enrich?: EnrichFunction;
+  private pendingExports = new Set<Promise<void>>();
+  private shouldTrace?: ShouldTrace;
+  private serverInfo: ServerInfo;
+  private transportServerInfo = new WeakMap<Transport, ServerInfo>();
+  private missingServerInfoLogged = false;
   private versions: { mcpTraceVersion: string; mcpSdkVersion: string };
-  private pendingRequests: Map<string | number, {
+  private pendingRequests: Map<string, {
     startTime: number;
     requestData: TraceData;
+    requestMessage: JSONRPCRequest;
     requestExtra?: MessageExtraInfo;
     transport?: Transport;
+    activeTrace?: ActiveTrace;
+    progressKey?: string;
+    lastProgressAt?: number;
+    method?: string;
+    toolName?: string;
+    sessionKey?: string;
   }> = new Map();
-  private pendingRequestTimeouts = new Map<string | number, NodeJS.Timeout>();
+  private progressTokens = new Map<string, string>();
+  private pendingRequestTimeouts = new Map<string, NodeJS.Timeout>();
+  private ignoredRequests = new Set<string>();
+  private connectionIds = new WeakMap<Transport, string>();
+  private transportSides = new WeakMap<Transport, TraceSide>();
+  private transportSessionIds = new WeakMap<Transport, string>();
+  private connectionCounter = 0;
+  private requestTimeout: number;
+  private sessions = new SessionRegistry();
+  private sampler?: Sampler;
+  private metrics?: TraceMetrics;
+  private metricsSource: MetricsSource = {
+    activeSessions: () => this.sessions.size,
+    pendingRequests: () => this.pendingRequests.size,
+  };
+  private payloadLimiter?: PayloadLimiter;
 
   constructor(options: TraceMiddlewareOptions) {
     this.validateOptions(options);
     this.adapter = options.adapter;
     this.redact = options.redact;
-    this.identifyUser = options.identifyUser;
+    this.redactor = options.redaction ? new Redactor(options.redaction) : undefined;
+    this.userIdentifier = options.userIdentifier ?? (options.identifyUser && fromHeaders(options.identifyUser));
+    this.enrich = options.enrich;
+    this.shouldTrace = options.shouldTrace;
+    this.serverInfo = { ...options.serverInfo };
+    this.requestTimeout = options.requestTimeout ?? 5 * 60 * 1000;
+    this.sampler = options.sampling ? new Sampler(options.sampling) : undefined;
+    this.metrics = options.metrics;
+    this.metrics?.track(this.metricsSource);
+    const summarizeBinary = options.summarizeBinary ?? true;
+    if (summarizeBinary || options.maxPayloadBytes !== undefined || options.payloadLimits) {
+      this.payloadLimiter = new PayloadLimiter({
+        maxPayloadBytes: options.maxPayloadBytes,
+        payloadLimits: options.payloadLimits,
+        summarizeBinary,
+      });
+    }
     this.versions = getVersions();
     this.logFields = {
       type: true,
@@ -117,62 +221,240 @@ export class TraceMiddleware {
       client_id: true,
       duration: true,
       entity_name: true,
-      arguments: true,
+      request: options.logFields?.arguments ?? true,
       response: true,
       error: true,
       ...options.logFields,
     };
+    this.capturePolicies = options.capture ? new CapturePolicies(options.capture) : undefined;
   }
 
   public init(server: McpServer | Server): void {
-    this.server = server instanceof McpServer ? server.server : server;
-    this.traceEvent(this.server);
+    this.traceEvent(server instanceof McpServer ? server.server : server);
+  }
+
+  /**
+   * Traces an MCP client. Requests it sends are `outbound`, requests the server
+   * sends it (sampling, elicitation, roots) are `inbound`, and server details are
+   * taken from the `initialize` response.
+   *
+   * ```ts
+   * const client = new Client({ name: "my-agent", version: "1.0.0" });
+   * tracer.initClient(client);
+   * await client.connect(transport);
+   * ```
+   */
+  public initClient(client: Client): void {
+    this.traceClientEvent(client);
+  }
+
+  /**
+   * Traces any transport directly, without going through `Server.connect` or
+   * `Client.connect`. Useful for proxies and gateways that forward raw messages
+   * between two transports; give both legs the same `sessionId` and their
+   * traces can be correlated by session and request id.
+   *
+   * Call it before `start()` and after the transport's `onclose`/`onerror`
+   * handlers are installed; `onmessage` may be set before or after.
+   *
+   * ```ts
+   * const upstream = tracer.traceTransport(new StdioServerTransport(), { role: 'server', sessionId: 'gw-1' });
+   * const downstream = tracer.traceTransport(clientTransport, { role: 'client', sessionId: 'gw-1' });
+   * ```
+   */
+  public traceTransport<T extends Transport>(transport: T, options: TraceTransportOptions): T {
+    if (options.role !== 'server' && options.role !== 'client') {
+      throw new Error("traceTransport role must be 'server' or 'client'");
+    }
+
+    if (options.sessionId) {
+      this.transportSessionIds.set(transport, options.sessionId);
+    }
+
+    this.handle(transport, options.role);
+    return transport;
+  }
+
+  /**
+   * Fills in server name and version from the server's implementation info
+   * unless they were set explicitly through options. The SDK has no public
+   * accessor for it, so this reads the private `_serverInfo` field that
+   * `Server` keeps its constructor argument in.
+   */
+  private resolveServerInfo(server: Server): ServerInfo {
+    const implementation = (server as any)._serverInfo as { name?: string; version?: string } | undefined;
+    if (!implementation && !this.missingServerInfoLogged) {
+      this.missingServerInfoLogged = true;
+      this.log('warn', 'Server implementation info not found, set serverInfo in options to record server name and version');
+    }
+    return {
+      server_id: this.serverInfo.server_id,
+      server_name: this.serverInfo.server_name ?? implementation?.name,
+      server_version: this.serverInfo.server_version ?? implementation?.version,
+    };
   }
 
   private traceEvent(server: Server): void {
     const originalConnect = server.connect.bind(server);
 
     server.connect = async (transport: Transport) => {
-      this.handle(transport);
+      // Servers traced by the same middleware may have different names
+      this.transportServerInfo.set(transport, this.resolveServerInfo(server));
+      this.handle(transport, 'server');
       return originalConnect(transport);
     };
   }
 
-  private handle(transport: Transport): void {
+  private traceClientEvent(client: Client): void {
+    const originalConnect = client.connect.bind(client);
+
+    client.connect = async (transport: Transport, options?: RequestOptions) => {
+      this.handle(transport, 'client');
+      return originalConnect(transport, options);
+    };
+  }
+
+  private handle(transport: Transport, side: TraceSide): void {
     try {
-      const originalOnMessage = transport.onmessage;
+      if (this.transportSides.has(transport)) {
+        this.log('warn', 'Transport is already traced, skipping', { side });
+        return;
+      }
+      this.transportSides.set(transport, side);
+
       const originalSend = transport.send.bind(transport);
+      const originalOnClose = transport.onclose;
+      const originalOnError = transport.onerror;
+
+      this.wrapOnMessage(transport);
 
-      transport.onmessage = (message: JSONRPCMessage, extra?: MessageExtraInfo) => {
+      transport.send = async (message: JSONRPCMessage, options?: TransportSendOptions) => {
         try {
-          this.handleIncomingMessage(message, extra, transport);
-          if (originalOnMessage) originalOnMessage(message, extra);
+          return originalSend(this.handleOutgoingMessage(message, options, transport), options);
         } catch (error) {
-          this.log('error', 'Error in onmessage handler', { error: error instanceof Error ? error.message : String(error) });
-          if (originalOnMessage) originalOnMessage(message, extra);
+          this.log('error', 'Error in send handler', { error: error instanceof Error ? error.message : String(error) });
+          return originalSend(message, options);
         }
       };
 
-      transport.send = async (message: JSONRPCMessage, options?: TransportSendOptions) => {
+      transport.onclose = () => {
         try {
-          this.handleOutgoingMessage(message, options, transport);
-          return originalSend(message, options);
+          this.abortPendingRequests(transport, 'Connection closed');
+          this.endSession(this.getSessionKey(undefined, transport));
         } catch (error) {
-          this.log('error', 'Error in send handler', { error: error instanceof Error ? error.message : String(error) });
-          return originalSend(message, options);
+          this.log('error', 'Error in onclose handler', { error: error instanceof Error ? error.message : String(error) });
+        }
+        if (originalOnClose) originalOnClose();
+      };
+
+      transport.onerror = (error: Error) => {
+        try {
+          this.sessions.recordTransportError(this.getSessionKey(undefined, transport));
+        } catch (err) {
+          this.log('error', 'Error in onerror handler', { error: err instanceof Error ? err.message : String(err) });
         }
+        if (originalOnError) originalOnError(error);
       };
     } catch (error) {
       this.log('error', 'Failed to setup transport handlers', { error: error instanceof Error ? error.message : String(error) });
     }
   }
 
+  /**
+   * Traces incoming messages and dispatches them inside the request's async
+   * context, so handlers can reach it with `getCurrentTrace()`.
+   *
+   * `Protocol.connect` (and proxy code) may install its handler after this one
+   * and chain to it. `onmessage` is therefore turned into an accessor: a handler
+   * assigned later is stored and dispatched from here, and its chained call back
+   * into this handler just forwards to the handler that was there before.
+   */
+  private wrapOnMessage(transport: Transport): void {
+    const previousHandler = transport.onmessage;
+    let installedHandler: Transport['onmessage'];
+    let dispatching: JSONRPCMessage | undefined;
+
+    const onmessage = (message: JSONRPCMessage, extra?: MessageExtraInfo) => {
+      if (dispatching === message) {
+        previousHandler?.(message, extra);
+        return;
+      }
+
+      let activeTrace: ActiveTrace | undefined;
+      try {
+        this.handleIncomingMessage(message, extra, transport);
+        activeTrace = this.startActiveTrace(message, transport);
+      } catch (error) {
+        this.log('error', 'Error in onmessage handler', { error: error instanceof Error ? error.message : String(error) });
+      }
+
+      const handler = installedHandler ?? previousHandler;
+      if (!handler) return;
+
+      dispatching = message;
+      try {
+        if (activeTrace) {
+          runWithTrace(activeTrace, () => handler(message, extra));
+        } else {
+          handler(message, extra);
+        }
+      } finally {
+        dispatching = undefined;
+      }
+    };
+
+    Object.defineProperty(transport, 'onmessage', {
+      configurable: true,
+      enumerable: true,
+      get: () => onmessage,
+      set: (handler: Transport['onmessage']) => {
+        if (handler !== onmessage) {
+          installedHandler = handler;
+        }
+      },
+    });
+  }
+
+  /**
+   * Creates the handle `getCurrentTrace()` returns inside the handler of a
+   * traced inbound request.
+   */
+  private startActiveTrace(message: JSONRPCMessage, transport: Transport): ActiveTrace | undefined {
+    if (!this.isJSONRPCRequest(message)) {
+      return undefined;
+    }
+
+    const pending = this.pendingRequests.get(this.pendingKey(transport, 'inbound', message.id));
+    if (!pending) {
+      return undefined;
+    }
+
+    pending.activeTrace = new ActiveTrace(pending.requestData);
+    return pending.activeTrace;
+  }
+
   private handleIncomingMessage(message: any, extra?: MessageExtraInfo, transport?: Transport): void {
     try {
       if (this.isJSONRPCRequest(message)) {
-        this.handleRequest(message, extra, transport);
+        if (this.isIgnored(message, extra)) {
+          this.ignoreRequest(this.pendingKey(transport, 'inbound', message.id));
+          return;
+        }
+        this.trackSession(message, extra, transport);
+        this.handleRequest(message, extra, transport, 'inbound');
+      } else if (this.isJSONRPCResponse(message)) {
+        const key = this.pendingKey(transport, 'outbound', message.id);
+        if (this.ignoredRequests.has(key)) {
+          this.releaseIgnoredRequest(key);
+          return;
+        }
+        this.handleResponse(message, transport, 'outbound');
       } else if (this.isJSONRPCNotification(message)) {
-        this.logMessage(message, extra);
+        if (this.handleCancellation(message, transport, 'inbound')) return;
+        if (this.isIgnored(message, extra)) return;
+        this.trackSession(message, extra, transport);
+        if (this.handleProgress(message, transport, 'outbound')) return;
+        this.logMessage(message, extra, transport, 'inbound');
       }
     } catch (error) {
       this.log('error', 'Error handling incoming message', {
@@ -184,12 +466,42 @@ export class TraceMiddleware {
     }
   }
 
-  private handleOutgoingMessage(message: any, options?: TransportSendOptions, transport?: Transport): void {
+  /**
+   * Traces a message about to be sent and returns the message to send in its
+   * place, which for traced requests carries the trace context in `_meta`.
+   */
+  private handleOutgoingMessage(message: any, options?: TransportSendOptions, transport?: Transport): JSONRPCMessage {
     try {
-      if (this.isJSONRPCResponse(message)) {
-        this.handleOutgoingResponse(message, options, transport);
+      const relatedKey = options?.relatedRequestId !== undefined
+        ? this.pendingKey(transport, 'inbound', options.relatedRequestId)
+        : undefined;
+      const relatedToIgnored = relatedKey !== undefined && this.ignoredRequests.has(relatedKey);
+      const parent = relatedKey !== undefined ? this.pendingRequests.get(relatedKey)?.requestData : undefined;
+
+      if (this.isJSONRPCRequest(message)) {
+        if (relatedToIgnored || this.isIgnored(message, undefined)) {
+          this.ignoreRequest(this.pendingKey(transport, 'outbound', message.id));
+          return message;
+        }
+        this.trackSession(message, undefined, transport);
+        this.handleRequest(message, undefined, transport, 'outbound', parent);
+        const pending = this.pendingRequests.get(this.pendingKey(transport, 'outbound', message.id));
+        if (pending) {
+          return this.injectTraceContext(message, pending.requestData);
+        }
+      } else if (this.isJSONRPCResponse(message)) {
+        const key = this.pendingKey(transport, 'inbound', message.id);
+        if (this.ignoredRequests.has(key)) {
+          this.releaseIgnoredRequest(key);
+          return message;
+        }
+        this.handleResponse(message, transport, 'inbound');
       } else if (this.isJSONRPCNotification(message)) {
-        this.logMessage(message, undefined);
+        if (this.handleCancellation(message, transport, 'outbound')) return message;
+        if (relatedToIgnored || this.isIgnored(message, undefined)) return message;
+        this.trackSession(message, undefined, transport);
+        if (this.handleProgress(message, transport, 'inbound')) return message;
+        this.logMessage(message, undefined, transport, 'outbound', parent);
       }
     } catch (error) {
       this.log('error', 'Error handling outgoing message', {
@@ -200,30 +512,63 @@ export class TraceMiddleware {
         hasError: message.error !== undefined
       });
     }
+    return message;
   }
 
-  private handleRequest(message: JSONRPCRequest, extra?: MessageExtraInfo, transport?: Transport): void {
+  /**
+   * Returns a copy of an outbound request whose `_meta` carries the trace
+   * context of its trace, so the peer can record its span as a child of it.
+   * The caller's message is left untouched.
+   */
+  private injectTraceContext(message: JSONRPCRequest, traceData: TraceData): JSONRPCRequest {
+    if (!traceData.trace_id || !traceData.span_id) {
+      return message;
+    }
+
+    const meta: Record<string, unknown> = {
+      ...message.params?._meta,
+      traceparent: formatTraceparent(traceData.trace_id, traceData.span_id),
+    };
+    if (traceData.trace_state) {
+      meta.tracestate = traceData.trace_state;
+    } else {
+      delete meta.tracestate;
+    }
+    return { ...message, params: { ...message.params, _meta: meta } };
+  }
+
+  private handleRequest(message: JSONRPCRequest, extra: MessageExtraInfo | undefined, transport: Transport | undefined, direction: TraceDirection, parent?: TraceData): void {
     try {
       const startTime = Date.now();
-      const traceData = this.createTraceData(message, extra, transport);
+      const traceData = this.createTraceData(message, extra, transport, direction, parent);
 
       if (traceData) {
-        this.pendingRequests.set(message.id, {
+        const key = this.pendingKey(transport, direction, message.id);
+        const progressToken = message.params?._meta?.progressToken;
+        const progressKey = progressToken !== undefined
+          ? this.pendingKey(transport, direction, progressToken)
+          : undefined;
+
+        this.pendingRequests.set(key, {
           startTime,
           requestData: traceData,
+          requestMessage: message,
           requestExtra: extra,
-          transport: transport
+          transport: transport,
+          progressKey,
+          method: message.method,
+          sessionKey: this.getSessionKey(extra, transport),
+          toolName: message.method === 'tools/call' ? (message.params as any)?.name : undefined
         });
 
-        const timeout = setTimeout(() => {
-          this.pendingRequests.delete(message.id);
-          this.pendingRequestTimeouts.delete(message.id);
-        }, 5 * 60 * 1000);
+        if (progressKey) {
+          this.progressTokens.set(progressKey, key);
+        }
 
-        this.pendingRequestTimeouts.set(message.id, timeout);
+        this.schedulePendingTimeout(key);
 
         if (message.method && message.id === undefined) {
-          this.adapter.export(traceData);
+          this.exportTrace(traceData, this.getEnrichContext(message, extra, transport));
         }
       }
     } catch (error) {
@@ -235,13 +580,26 @@ export class TraceMiddleware {
     }
   }
 
-
-  private handleOutgoingResponse(message: JSONRPCResponse, options?: TransportSendOptions, transport?: Transport): void {
+  /**
+   * Pairs a response with the pending request it answers. `direction` is the
+   * direction of that request, so a response sent by the server answers an
+   * `inbound` request and a response it receives answers an `outbound` one.
+   */
+  private handleResponse(message: JSONRPCResponse | JSONRPCError, transport: Transport | undefined, direction: TraceDirection): void {
     try {
-      const pending = this.pendingRequests.get(message.id);
+      const key = this.pendingKey(transport, direction, message.id);
+      const pending = this.pendingRequests.get(key);
       if (pending) {
         const duration = Date.now() - pending.startTime;
 
+        if (pending.method === 'initialize' && 'result' in message) {
+          this.completeInitialize(pending, message.result);
+        }
+
+        pending.activeTrace?.end();
+
+        this.recordSessionRequest(key, duration, this.getErrorInfo(message).is_error);
+
         const combinedTraceData = this.createCombinedTraceData(
           pending.requestData,
           message,
@@ -249,37 +607,608 @@ export class TraceMiddleware {
         );
 
         if (combinedTraceData) {
-          this.adapter.export(combinedTraceData);
+          this.exportTrace(combinedTraceData, this.getEnrichContext(pending.requestMessage, pending.requestExtra, pending.transport));
         }
 
-        this.pendingRequests.delete(message.id);
-        const timeout = this.pendingRequestTimeouts.get(message.id);
-        if (timeout) {
-          clearTimeout(timeout);
-          this.pendingRequestTimeouts.delete(message.id);
-        }
+        this.removePendingRequest(key);
       } else {
         const responseTraceData = this.createTraceData({
           ...message,
-        }, undefined, transport);
+        }, undefined, transport, direction);
 
         if (responseTraceData) {
-          this.adapter.export(responseTraceData);
+          this.exportTrace(responseTraceData, this.getEnrichContext(message, undefined, transport));
         }
       }
     } catch (error) {
-      this.log('error', 'Error handling outgoing response', {
+      this.log('error', 'Error handling response', {
         error: error instanceof Error ? error.message : String(error),
         messageId: message.id
       });
     }
   }
 
-  private logMessage(message: JSONRPCMessage, extra?: MessageExtraInfo): void {
+  /**
+   * Links `notifications/cancelled` to the request it cancels. `direction` is the
+   * direction of the notification, which matches the direction of the cancelled
+   * request. Returns true when the notification was consumed.
+   */
+  private handleCancellation(message: any, transport: Transport | undefined, direction: TraceDirection): boolean {
+    const requestId = message.params?.requestId;
+    if (message.method !== 'notifications/cancelled' || requestId === undefined) {
+      return false;
+    }
+
+    const key = this.pendingKey(transport, direction, requestId);
+    if (this.ignoredRequests.has(key)) {
+      this.releaseIgnoredRequest(key);
+      return true;
+    }
+
+    if (!this.pendingRequests.has(key)) {
+      return false;
+    }
+
+    const reason = typeof message.params?.reason === 'string' ? message.params.reason : undefined;
+    this.finishPendingRequest(key, 'cancelled', reason);
+    // A late response to a cancelled request should not be traced on its own
+    this.ignoreRequest(key);
+    return true;
+  }
+
+  /**
+   * Attaches a `notifications/progress` update to the pending request that
+   * issued its progress token. `direction` is the direction of that request,
+   * the opposite of the notification's. Returns true when the notification was consumed.
+   */
+  private handleProgress(message: any, transport: Transport | undefined, direction: TraceDirection): boolean {
+    const params = message.params;
+    if (message.method !== 'notifications/progress' || params?.progressToken === undefined) {
+      return false;
+    }
+
+    const key = this.progressTokens.get(this.pendingKey(transport, direction, params.progressToken));
+    const pending = key ? this.pendingRequests.get(key) : undefined;
+    if (!pending) {
+      return false;
+    }
+
+    const now = Date.now();
+    const event: ProgressEvent = {
+      timestamp: new Date(now).toISOString(),
+      progress: params.progress,
+      total: params.total,
+      message: params.message,
+    };
+
+    const previous = pending.requestData.progress;
+    const interval = pending.lastProgressAt !== undefined ? now - pending.lastProgressAt : undefined;
+    const count = (previous?.count ?? 0) + 1;
+    const timeToFirst = previous?.time_to_first_ms ?? now - pending.startTime;
+
+    pending.requestData.progress = {
+      count,
+      progress: event.progress,
+      total: event.total,
+      message: event.message,
+      time_to_first_ms: timeToFirst,
+      avg_interval_ms: count > 1 ? Math.round((now - pending.startTime - timeToFirst) / (count - 1)) : 0,
+      max_interval_ms: Math.max(previous?.max_interval_ms ?? 0, interval ?? 0),
+    };
+    pending.lastProgressAt = now;
+
+    const events = pending.requestData.progress_events ?? [];
+    events.push(event);
+    if (events.length > MAX_PROGRESS_EVENTS) {
+      events.shift();
+    }
+    pending.requestData.progress_events = events;
+
+    return true;
+  }
+
+  /**
+   * Exports a request that ended without a response and stops tracking it.
+   */
+  private finishPendingRequest(key: string, status: Exclude<RequestStatus, 'completed'>, reason?: string): void {
+    const pending = this.pendingRequests.get(key);
+    if (!pending) return;
+
+    const duration = Date.now() - pending.startTime;
+    this.recordSessionRequest(key, duration, this.getUnfinishedErrorInfo(status, duration, reason).is_error);
+    this.removePendingRequest(key);
+    pending.activeTrace?.end();
+
+    try {
+      const traceData = this.createCombinedTraceData(
+        pending.requestData,
+        undefined,
+        duration,
+        status,
+        reason
+      );
+
+      if (traceData) {
+        this.exportTrace(traceData, this.getEnrichContext(pending.requestMessage, pending.requestExtra, pending.transport));
+      }
+    } catch (error) {
+      this.log('error', 'Error exporting unfinished request', {
+        error: error instanceof Error ? error.message : String(error),
+        status
+      });
+    }
+  }
+
+  /**
+   * Traces every in-flight request as aborted. When a transport is given only
+   * its requests are aborted and its skipped requests are forgotten.
+   */
+  private abortPendingRequests(transport: Transport | undefined, reason: string): void {
+    for (const [key, pending] of [...this.pendingRequests.entries()]) {
+      if (!transport || pending.transport === transport) {
+        this.finishPendingRequest(key, 'aborted', reason);
+      }
+    }
+
+    const prefix = transport ? `${this.getConnectionId(transport)}:` : '';
+    for (const key of [...this.ignoredRequests]) {
+      if (key.startsWith(prefix)) {
+        this.releaseIgnoredRequest(key);
+      }
+    }
+  }
+
+  private removePendingRequest(key: string): void {
+    const pending = this.pendingRequests.get(key);
+    if (pending?.progressKey) {
+      this.progressTokens.delete(pending.progressKey);
+    }
+
+    this.pendingRequests.delete(key);
+    const timeout = this.pendingRequestTimeouts.get(key);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.pendingRequestTimeouts.delete(key);
+    }
+  }
+
+  /**
+   * Registers the session on its first traced message and emits `session_start`.
+   * The client info and capabilities announced in `initialize` are recorded too.
+   */
+  private trackSession(message: any, extra?: MessageExtraInfo, transport?: Transport): void {
+    const key = this.getSessionKey(extra, transport);
+    const isNew = !this.sessions.get(key);
+    const side = transport ? this.transportSides.get(transport) : undefined;
+
+    if (message.method === 'initialize') {
+      const params: any = message.params ?? {};
+      this.sessions.update(key, {
+        session_id: this.getSessionId(extra, transport),
+        side,
+        client_name: params.clientInfo?.name,
+        client_version: params.clientInfo?.version,
+        client_capabilities: params.capabilities,
+        protocol_version: params.protocolVersion,
+      });
+    } else if (isNew) {
+      this.sessions.update(key, { session_id: this.getSessionId(extra, transport), side });
+    }
+
+    if (isNew && side === 'server' && transport) {
+      // Kept on the session for session events, which have no transport
+      const serverInfo = this.getServerFields(side, undefined, transport);
+      this.sessions.update(key, { server_name: serverInfo.server_name, server_version: serverInfo.server_version });
+    }
+
+    this.identifySession(key, extra);
+
+    if (isNew) {
+      this.exportSessionEvent('session_start', key);
+    }
+  }
+
+  /**
+   * Resolves the user of a session from the first message carrying headers or
+   * auth info, and keeps it for the rest of the session. An async identifier
+   * holds back the session's traces until it settles.
+   */
+  private identifySession(key: string, extra?: MessageExtraInfo): void {
+    if (!this.userIdentifier || this.identities.has(key) || !(extra?.requestInfo?.headers || extra?.authInfo)) {
+      return;
+    }
+
+    const identity: SessionIdentity = { key };
+    this.identities.set(key, identity);
+
+    const resolve = (user: Partial<User> | undefined) => {
+      identity.user = user && { user_id: user.user_id, user_name: user.user_name, user_email: user.user_email };
+      identity.pending = undefined;
+      if (identity.user && this.identities.get(identity.key) === identity) {
+        this.sessions.update(identity.key, identity.user);
+      }
+    };
+    const fail = (error: unknown) => {
+      this.log('warn', 'Error identifying user', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      resolve(undefined);
+    };
+
+    try {
+      const user = this.userIdentifier(extra!);
+      if (user instanceof Promise) {
+        identity.pending = user.then(resolve, fail);
+      } else {
+        resolve(user);
+      }
+    } catch (error) {
+      fail(error);
+    }
+  }
+
+  /**
+   * Records the negotiated protocol version and the server's details from an
+   * `initialize` result. A client only learns its session id from this response,
+   * so its session entry is moved to the new key.
+   */
+  private completeInitialize(pending: { requestData: TraceData; requestExtra?: MessageExtraInfo; transport?: Transport; sessionKey?: string }, result: any): void {
+    const key = this.getSessionKey(pending.requestExtra, pending.transport);
+    if (pending.sessionKey && pending.sessionKey !== key) {
+      this.sessions.rename(pending.sessionKey, key);
+      const identity = this.identities.get(pending.sessionKey);
+      if (identity) {
+        this.identities.delete(pending.sessionKey);
+        this.identities.set(key, identity);
+        identity.key = key;
+      }
+    }
+
+    const protocolVersion = result?.protocolVersion ? String(result.protocolVersion) : undefined;
+    this.sessions.update(key, {
+      session_id: this.getSessionId(pending.requestExtra, pending.transport),
+      protocol_version: protocolVersion,
+    });
+    pending.requestData.protocol_version = protocolVersion;
+    if (pending.requestData.side === 'client') {
+      this.sessions.update(key, { server_name: result?.serverInfo?.name, server_version: result?.serverInfo?.version });
+      pending.requestData.server_name = result?.serverInfo?.name;
+      pending.requestData.server_version = result?.serverInfo?.version;
+    }
+  }
+
+  /**
+   * Emits `session_end` with the session summary and evicts the session.
+   */
+  private endSession(key: string): void {
+    const session = this.sessions.get(key);
+    if (!session) return;
+
+    this.exportSessionEvent('session_end', key);
+    this.sessions.delete(key);
+    this.identities.delete(key);
+    this.sampler?.forget(session.session_id);
+  }
+
+  /**
+   * Hands a request or notification trace on for export, unless sampling drops it.
+   */
+  private exportTrace(traceData: TraceData, context: EnrichContext): void {
+    try {
+      this.metrics?.record(traceData);
+    } catch (error) {
+      this.log('warn', 'Error recording metrics', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    if (this.sampler) {
+      const sampleRate = this.sampler.sample(traceData);
+      if (sampleRate === undefined) {
+        return;
+      }
+      traceData.sample_rate = sampleRate;
+    }
+
+    this.emit(traceData, context);
+  }
+
+  /**
+   * Stamps the session's user on the trace, runs the `enrich` hook, then exports
+   * the trace. A pending user identification or an async hook delays the export
+   * until it settles; `flush` and `shutdown` wait for it.
+   */
+  private emit(traceData: TraceData, context: EnrichContext, identity = this.identities.get(this.getSessionKey(context.extra, context.transport))): void {
+    if (identity?.pending) {
+      this.trackExport(identity.pending.then(() => this.enrichAndDeliver(traceData, context, identity)));
+      return;
+    }
+    this.enrichAndDeliver(traceData, context, identity);
+  }
+
+  private enrichAndDeliver(traceData: TraceData, context: EnrichContext, identity?: SessionIdentity): void {
+    if (identity?.user) {
+      Object.assign(traceData, identity.user);
+    }
+
+    if (!this.enrich) {
+      this.deliver(traceData);
+      return;
+    }
+
+    let enriched: ReturnType<EnrichFunction>;
+    try {
+      enriched = this.enrich(traceData, context);
+    } catch (error) {
+      this.log('warn', 'Error applying enrich function', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      this.deliver(traceData);
+      return;
+    }
+
+    if (!(enriched instanceof Promise)) {
+      this.deliver(enriched ?? traceData);
+      return;
+    }
+
+    this.trackExport(enriched.then(result => this.deliver(result ?? traceData), error => {
+      this.log('warn', 'Error applying enrich function', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      this.deliver(traceData);
+    }));
+  }
+
+  private trackExport(promise: Promise<void>): void {
+    const pending: Promise<void> = promise.finally(() => this.pendingExports.delete(pending));
+    this.pendingExports.add(pending);
+  }
+
+  /**
+   * Waits for delayed exports, including those queued while waiting.
+   */
+  private async settleExports(): Promise<void> {
+    while (this.pendingExports.size > 0) {
+      await Promise.all(this.pendingExports);
+    }
+  }
+
+  /**
+   * Redacts, limits and filters a finished trace and passes it to the adapter.
+   */
+  private deliver(traceData: TraceData): void {
+    try {
+      this.adapter.export(this.prepareTraceData(traceData));
+    } catch (error) {
+      this.log('error', 'Error exporting trace', {
+        error: error instanceof Error ? error.message : String(error),
+        type: traceData.type
+      });
+    }
+  }
+
+  private prepareTraceData(traceData: TraceData): TraceData {
+    const prepared: TraceData = { ...traceData };
+
+    if (traceData.type === 'request' || traceData.type === 'notification') {
+      const captured = this.capturePolicies ? this.capturePolicies.apply(traceData) : traceData;
+      prepared.request = this.preparePayload('request', captured.request);
+      prepared.response = this.preparePayload('response', captured.response);
+      prepared.request_size = this.payloadLimiter?.measure(traceData.request);
+      prepared.response_size = this.payloadLimiter?.measure(traceData.response);
+      prepared.error = this.redactText(traceData.error);
+      prepared.error_message = this.redactText(traceData.error_message);
+      // A failed tool's error text is its result, so it follows the response policy
+      if (traceData.error_type === 'tool' && captured.response !== traceData.response) {
+        const text = toolResultText(captured.response);
+        prepared.error = this.redactText(text || TOOL_ERROR);
+        prepared.error_message = this.redactText(text || undefined);
+      }
+      prepared.error_data = this.preparePayload('error_data', traceData.error_data);
+    }
+    prepared.metadata = this.applyRedaction(traceData.metadata);
+    prepared.annotations = this.applyRedaction(traceData.annotations);
+    prepared.events = traceData.events?.map(event => ({ ...event, attributes: this.applyRedaction(event.attributes) }));
+    prepared.spans = traceData.spans?.map(span => ({ ...span, attributes: this.applyRedaction(span.attributes) }));
+
+    return this.filterTraceData(prepared);
+  }
+
+  private getEnrichContext(message: JSONRPCMessage | undefined, extra: MessageExtraInfo | undefined, transport: Transport | undefined): EnrichContext {
+    const session = this.sessions.get(this.getSessionKey(extra, transport));
+    return { message, extra, transport, session: session && { ...session } };
+  }
+
+  private exportSessionEvent(type: 'session_start' | 'session_end', key: string): void {
     try {
-      const traceData = this.createTraceData(message, extra);
+      const session = this.sessions.get(key);
+      if (!session) return;
+
+      const summary = type === 'session_end' ? this.sessions.summarize(session) : undefined;
+      const serverFields = this.getServerFields(session.side, session);
+      const traceData: TraceData = {
+        type,
+        side: session.side,
+        timestamp: new Date().toISOString(),
+        session_id: session.session_id,
+        client_name: session.client_name,
+        client_version: session.client_version,
+        client_capabilities: session.client_capabilities,
+        protocol_version: session.protocol_version,
+        duration: summary?.duration,
+        user_id: session.user_id,
+        user_name: session.user_name,
+        user_email: session.user_email,
+        server_id: serverFields.server_id,
+        server_name: serverFields.server_name,
+        server_version: serverFields.server_version,
+        sdk_language: 'javascript',
+        sdk_version: this.versions.mcpSdkVersion,
+        mcp_trace_version: this.versions.mcpTraceVersion,
+        session_summary: summary,
+      };
+
+      this.emit(traceData, { session: { ...session } }, this.identities.get(key));
+    } catch (error) {
+      this.log('error', 'Error exporting session event', {
+        error: error instanceof Error ? error.message : String(error),
+        type
+      });
+    }
+  }
+
+  /**
+   * Counts a finished request towards its session's summary.
+   */
+  private recordSessionRequest(key: string, duration: number, isError?: boolean): void {
+    const pending = this.pendingRequests.get(key);
+    if (!pending) return;
+
+    this.sessions.recordRequest(this.getSessionKey(pending.requestExtra, pending.transport), {
+      method: pending.method,
+      tool_name: pending.toolName,
+      duration,
+      is_error: isError,
+    });
+  }
+
+  /**
+   * A traced server reports the details of the server its transport was
+   * connected to; a traced client reports the details of the server it
+   * connected to, learned from `initialize`. Without a transport, the details
+   * recorded on the session are used.
+   */
+  private getServerFields(side: TraceSide | undefined, session?: SessionInfo, transport?: Transport): ServerInfo {
+    if (side !== 'client' && transport) {
+      return this.transportServerInfo.get(transport) ?? this.serverInfo;
+    }
+    if (side !== 'client' && !session) {
+      return this.serverInfo;
+    }
+
+    return {
+      server_id: this.serverInfo.server_id,
+      server_name: session?.server_name,
+      server_version: session?.server_version,
+    };
+  }
+
+  private getSessionId(extra?: MessageExtraInfo, transport?: Transport): string {
+    const sessionIdOverride = transport ? this.transportSessionIds.get(transport) : undefined;
+    if (sessionIdOverride) {
+      return sessionIdOverride;
+    }
+
+    const sessionIdHeader = extra?.requestInfo?.headers?.['mcp-session-id'];
+    const sessionIdFromTransport = transport?.sessionId;
+
+    return (Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader) || sessionIdFromTransport || "";
+  }
+
+  /**
+   * Builds the key used to correlate a request with its response. JSON-RPC ids
+   * are only unique per connection and per direction, so both are part of the key.
+   */
+  private pendingKey(transport: Transport | undefined, direction: TraceDirection, id: string | number): string {
+    return `${this.getConnectionId(transport)}:${direction}:${id}`;
+  }
+
+  /**
+   * Returns a stable id for a transport. Many sessions may reuse the same
+   * request ids, so correlation is scoped to the connection they arrived on.
+   */
+  private getConnectionId(transport?: Transport): string {
+    if (!transport) {
+      return '';
+    }
+
+    let connectionId = this.connectionIds.get(transport);
+    if (!connectionId) {
+      connectionId = String(++this.connectionCounter);
+      this.connectionIds.set(transport, connectionId);
+    }
+    return connectionId;
+  }
+
+  /**
+   * Returns the key used for the session registry. Transports without a session
+   * id (stdio, in-memory) are keyed by connection so they don't share an entry.
+   */
+  private getSessionKey(extra?: MessageExtraInfo, transport?: Transport): string {
+    // Both legs of a proxy may share a session id; keep their summaries apart.
+    const sessionIdOverride = transport ? this.transportSessionIds.get(transport) : undefined;
+    if (sessionIdOverride) {
+      return `${sessionIdOverride}:${this.transportSides.get(transport!)}`;
+    }
+
+    return this.getSessionId(extra, transport) || `connection:${this.getConnectionId(transport)}`;
+  }
+
+  /**
+   * Traces a pending request as timed out, or forgets an ignored one, if no
+   * response arrives within `requestTimeout`.
+   */
+  private schedulePendingTimeout(key: string): void {
+    const timeout = setTimeout(() => {
+      this.pendingRequestTimeouts.delete(key);
+      this.ignoredRequests.delete(key);
+      if (this.pendingRequests.has(key)) {
+        this.finishPendingRequest(key, 'timeout');
+        // A late response to a timed-out request should not be traced on its own
+        this.ignoreRequest(key);
+      }
+    }, this.requestTimeout);
+
+    this.pendingRequestTimeouts.set(key, timeout);
+  }
+
+  /**
+   * Remembers a skipped request so its response and related notifications are skipped too.
+   */
+  private ignoreRequest(key: string): void {
+    this.ignoredRequests.add(key);
+    this.schedulePendingTimeout(key);
+  }
+
+  private releaseIgnoredRequest(key: string): void {
+    this.ignoredRequests.delete(key);
+    const timeout = this.pendingRequestTimeouts.get(key);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.pendingRequestTimeouts.delete(key);
+    }
+  }
+
+  /**
+   * Returns true when the message carries `X-Ignore-Traces: true` or is rejected by `shouldTrace`.
+   */
+  private isIgnored(message: JSONRPCMessage, extra?: MessageExtraInfo): boolean {
+    const ignoreHeader = extra?.requestInfo?.headers?.['x-ignore-traces'];
+    const ignoreValue = Array.isArray(ignoreHeader) ? ignoreHeader[0] : ignoreHeader;
+    if (ignoreValue?.trim().toLowerCase() === 'true') {
+      return true;
+    }
+
+    if (!this.shouldTrace) {
+      return false;
+    }
+
+    try {
+      return this.shouldTrace(message, extra) === false;
+    } catch (error) {
+      this.log('warn', 'Error evaluating shouldTrace predicate', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  private logMessage(message: JSONRPCMessage, extra: MessageExtraInfo | undefined, transport: Transport | undefined, direction: TraceDirection, parent?: TraceData): void {
+    try {
+      const traceData = this.createTraceData(message, extra, transport, direction, parent);
       if (traceData) {
-        this.adapter.export(traceData);
+        this.exportTrace(traceData, this.getEnrichContext(message, extra, transport));
       }
     } catch (err) {
       console.error("TraceMiddleware logging failed:", err);
@@ -288,27 +1217,46 @@ export class TraceMiddleware {
 
   private createCombinedTraceData(
     requestData: TraceData,
-    responseMessage: JSONRPCResponse,
-    duration: number
+    responseMessage: JSONRPCResponse | JSONRPCError | undefined,
+    duration: number,
+    status: RequestStatus = 'completed',
+    statusReason?: string
   ): TraceData | undefined {
     const now = new Date().toISOString();
 
-    const responseResult = responseMessage.result;
+    const responseResult = responseMessage && 'result' in responseMessage ? responseMessage.result : undefined;
+    const errorInfo = responseMessage
+      ? this.getErrorInfo(responseMessage)
+      : this.getUnfinishedErrorInfo(status, duration, statusReason);
     const combinedTraceData: TraceData = {
       type: 'request',
+      side: requestData.side,
+      direction: requestData.direction,
+      status,
+      status_reason: statusReason,
       method: requestData.method,
       timestamp: now,
       id: requestData.id,
+      trace_id: requestData.trace_id,
+      span_id: requestData.span_id,
+      parent_span_id: requestData.parent_span_id,
+      trace_state: requestData.trace_state,
       session_id: requestData.session_id,
       client_id: requestData.client_id,
       client_name: requestData.client_name,
       client_version: requestData.client_version,
+      client_capabilities: requestData.client_capabilities,
+      protocol_version: requestData.protocol_version,
       duration: duration,
       entity_name: requestData.entity_name,
-      request: this.applyRedaction(requestData.request),
-      response: this.applyRedaction(responseResult),
-      is_error: requestData.is_error,
-      error: requestData.error,
+      request: requestData.request,
+      response: responseResult,
+      is_error: errorInfo.is_error,
+      error: errorInfo.error,
+      error_type: errorInfo.error_type,
+      error_code: errorInfo.error_code,
+      error_message: errorInfo.error_message,
+      error_data: errorInfo.error_data,
       ip_address: requestData.ip_address,
       user_id: requestData.user_id,
       user_name: requestData.user_name,
@@ -321,12 +1269,17 @@ export class TraceMiddleware {
       sdk_version: requestData.sdk_version,
       mcp_trace_version: requestData.mcp_trace_version,
       metadata: requestData.metadata,
+      progress: requestData.progress,
+      progress_events: requestData.progress_events,
+      annotations: requestData.annotations,
+      events: requestData.events,
+      spans: requestData.spans,
     };
 
-    return this.filterTraceData(combinedTraceData);
+    return combinedTraceData;
   }
 
-  private createTraceData(message: any, extra?: MessageExtraInfo, transport?: Transport): TraceData | undefined {
+  private createTraceData(message: any, extra?: MessageExtraInfo, transport?: Transport, direction?: TraceDirection, parent?: TraceData): TraceData | undefined {
     const now = new Date().toISOString();
 
     const type: "request" | "notification" = (message?.method && message?.id === undefined)
@@ -339,40 +1292,51 @@ export class TraceMiddleware {
       entityName = message.params?.name || "";
     }
 
-    const sessionIdHeader = extra?.requestInfo?.headers?.['mcp-session-id'];
-    const sessionIdFromTransport = transport?.sessionId;
     const userAgentHeader = extra?.requestInfo?.headers?.['user-agent'];
 
-    const sessionId = (Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader) || sessionIdFromTransport || "";
+    const sessionId = this.getSessionId(extra, transport);
+    const session = this.sessions.get(this.getSessionKey(extra, transport));
     const clientId = this.extractClientId(message) ||
       (Array.isArray(userAgentHeader) ? userAgentHeader[0] : userAgentHeader) ||
       undefined;
 
     const ipAddress = this.getIpAddress(extra);
-    const userInfo = this.getUserInfo(extra);
+    const errorInfo = this.getErrorInfo(message);
+    const traceContext = this.resolveTraceContext(message, extra, parent);
+    const side = transport ? this.transportSides.get(transport) : undefined;
+    const serverFields = this.getServerFields(side, session, transport);
 
     const traceData: TraceData = {
       type,
+      side,
+      direction,
       method,
       timestamp: now,
       id: message.id,
+      trace_id: traceContext.trace_id,
+      span_id: generateSpanId(),
+      parent_span_id: traceContext.parent_span_id,
+      trace_state: traceContext.trace_state,
       session_id: sessionId,
       client_id: clientId,
-      client_name: undefined,
-      client_version: undefined,
+      client_name: session?.client_name,
+      client_version: session?.client_version,
+      client_capabilities: session?.client_capabilities,
+      protocol_version: session?.protocol_version,
       duration: message._duration,
       entity_name: entityName,
-      request: this.applyRedaction(message.params),
-      response: this.applyRedaction(message.result),
-      is_error: !!message.error,
-      error: message.error ? `${message.error.code}: ${message.error.message}` : undefined,
+      request: message.params,
+      response: message.result,
+      is_error: errorInfo.is_error,
+      error: errorInfo.error,
+      error_type: errorInfo.error_type,
+      error_code: errorInfo.error_code,
+      error_message: errorInfo.error_message,
+      error_data: errorInfo.error_data,
       ip_address: ipAddress,
-      user_id: userInfo.user_id,
-      user_name: userInfo.user_name,
-      user_email: userInfo.user_email,
-      server_id: undefined,
-      server_name: undefined,
-      server_version: undefined,
+      server_id: serverFields.server_id,
+      server_name: serverFields.server_name,
+      server_version: serverFields.server_version,
       context: undefined,
       sdk_language: 'javascript',
       sdk_version: this.versions.mcpSdkVersion,
@@ -380,13 +1344,93 @@ export class TraceMiddleware {
       metadata: undefined,
     };
 
-    return this.filterTraceData(traceData);
+    return traceData;
+  }
+
+  /**
+   * Resolves the distributed trace a message belongs to. A `traceparent` in the
+   * request's `_meta` wins over the HTTP header; messages sent on behalf of a
+   * traced request become its children; anything else starts a new trace.
+   */
+  private resolveTraceContext(message: any, extra?: MessageExtraInfo, parent?: TraceData): TraceContext {
+    const meta = message?.params?._meta;
+    const fromMeta = parseTraceparent(meta?.traceparent, meta?.tracestate);
+    if (fromMeta) {
+      return fromMeta;
+    }
+
+    const headers = extra?.requestInfo?.headers;
+    const traceparentHeader = headers?.['traceparent'];
+    const tracestateHeader = headers?.['tracestate'];
+    const fromHeaders = parseTraceparent(
+      Array.isArray(traceparentHeader) ? traceparentHeader[0] : traceparentHeader,
+      Array.isArray(tracestateHeader) ? tracestateHeader.join(',') : tracestateHeader
+    );
+    if (fromHeaders) {
+      return fromHeaders;
+    }
+
+    if (parent?.trace_id) {
+      return { trace_id: parent.trace_id, parent_span_id: parent.span_id, trace_state: parent.trace_state };
+    }
+
+    return { trace_id: generateTraceId() };
+  }
+
+  /**
+   * Extracts failure details from a JSON-RPC error response or from a tool
+   * result flagged with `isError: true`.
+   */
+  private getErrorInfo(message: any): ErrorInfo {
+    if (message?.error) {
+      return {
+        is_error: true,
+        error: `${message.error.code}: ${message.error.message}`,
+        error_type: 'protocol',
+        error_code: message.error.code,
+        error_message: message.error.message,
+        error_data: message.error.data,
+      };
+    }
+
+    if (message?.result?.isError === true) {
+      const text = toolResultText(message.result);
+
+      return {
+        is_error: true,
+        error: text || TOOL_ERROR,
+        error_type: 'tool',
+        error_message: text || undefined,
+      };
+    }
+
+    return { is_error: false };
+  }
+
+  /**
+   * Timed out and aborted requests count as errors; cancelled ones do not.
+   */
+  private getUnfinishedErrorInfo(status: RequestStatus, duration: number, reason?: string): ErrorInfo {
+    if (status === 'timeout') {
+      return { is_error: true, error: `Request timed out after ${duration} ms` };
+    }
+
+    if (status === 'aborted') {
+      return { is_error: true, error: reason ? `Request aborted: ${reason}` : 'Request aborted' };
+    }
+
+    return { is_error: false };
   }
 
   private extractClientId(message: any): string | undefined {
     return message._meta?.clientId || message.clientId || message.context?.clientId;
   }
 
+  /**
+   * Drops the fields turned off in `logFields`. `error: false` drops every
+   * error detail, and a tool's error text is dropped with `response: false`
+   * since it is taken from the tool's result.
+   */
   private filterTraceData(traceData: TraceData): TraceData {
     const filtered: Partial<TraceData> = {};
     for (const [key, value] of Object.entries(traceData)) {
@@ -394,30 +1438,88 @@ export class TraceMiddleware {
         filtered[key as keyof TraceData] = value;
       }
     }
+
+    if (this.logFields.error === false) {
+      delete filtered.error_code;
+      delete filtered.error_message;
+      delete filtered.error_data;
+    } else if (this.logFields.response === false && traceData.error_type === 'tool') {
+      filtered.error = TOOL_ERROR;
+      delete filtered.error_message;
+    }
     return filtered as TraceData;
   }
 
   private applyRedaction(data: any): any {
-    if (!this.redact || data === null || data === undefined) {
+    if (data === null || data === undefined) {
       return data;
     }
 
+    let redacted = data;
+    if (this.redactor) {
+      try {
+        redacted = this.redactor.redact(redacted);
+      } catch (error) {
+        this.log('warn', 'Error applying redaction rules', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (!this.redact) {
+      return redacted;
+    }
+
     try {
-      return this.redact(data);
+      return this.redact(redacted);
     } catch (error) {
       this.log('warn', 'Error applying redaction function', {
         error: error instanceof Error ? error.message : String(error)
       });
-      return data;
+      return redacted;
+    }
+  }
+
+  /**
+   * Runs the built-in detectors over error text. The `redact` function only
+   * sees payloads, as before.
+   */
+  private redactText(text: string | undefined): string | undefined {
+    if (!this.redactor || !text) {
+      return text;
+    }
+
+    try {
+      return this.redactor.redactText(text);
+    } catch (error) {
+      this.log('warn', 'Error applying redaction rules', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return text;
     }
   }
 
+  /**
+   * Redacts a payload, then summarizes binary content and applies size limits.
+   */
+  private preparePayload(field: PayloadField, data: any): any {
+    const redacted = this.applyRedaction(data);
+    return this.payloadLimiter ? this.payloadLimiter.limit(field, redacted) : redacted;
+  }
+
   public async flush(timeout?: number): Promise<void> {
+    await this.settleExports();
     await this.adapter.flush?.(timeout);
   }
 
   public async shutdown(): Promise<void> {
     try {
+      this.abortPendingRequests(undefined, 'Tracer shut down');
+      for (const key of this.sessions.keys()) {
+        this.endSession(key);
+      }
+      await this.settleExports();
+      this.metrics?.untrack(this.metricsSource);
       this.cleanup();
       await this.adapter.shutdown?.();
     } catch (error) {
@@ -427,13 +1529,16 @@ export class TraceMiddleware {
 
   private cleanup(): void {
     this.pendingRequests.clear();
+    this.progressTokens.clear();
+    this.ignoredRequests.clear();
+    this.sessions.clear();
+    this.identities.clear();
+    this.sampler?.clear();
 
     for (const timeout of this.pendingRequestTimeouts.values()) {
       clearTimeout(timeout);
     }
     this.pendingRequestTimeouts.clear();
-
-    this.server = null as any;
   }
 
   private validateOptions(options: TraceMiddlewareOptions): void {
@@ -444,6 +1549,52 @@ export class TraceMiddleware {
     if (typeof options.adapter.export !== 'function') {
       throw new Error('TraceAdapter must implement export method');
     }
+
+    if (options.requestTimeout !== undefined && !(options.requestTimeout > 0)) {
+      throw new Error('requestTimeout must be a positive number of milliseconds');
+    }
+
+    if (options.shouldTrace !== undefined && typeof options.shouldTrace !== 'function') {
+      throw new Error('shouldTrace must be a function');
+    }
+
+    if (options.userIdentifier !== undefined && options.identifyUser !== undefined) {
+      throw new Error('Use either identifyUser or userIdentifier, not both');
+    }
+
+    if (options.capture !== undefined && !Array.isArray(options.capture)) {
+      throw new Error('capture must be an array of capture policies');
+    }
+
+    if (options.metrics !== undefined && !(options.metrics instanceof TraceMetrics)) {
+      throw new Error('metrics must be a TraceMetrics instance');
+    }
+
+    const isByteLimit = (value: number | undefined) => value === undefined || (Number.isInteger(value) && value > 0);
+    if (!isByteLimit(options.maxPayloadBytes)) {
+      throw new Error('maxPayloadBytes must be a positive integer');
+    }
+    if (options.payloadLimits && !Object.values(options.payloadLimits).every(isByteLimit)) {
+      throw new Error('payloadLimits must be positive integers');
+    }
+
+    if (options.sampling) {
+      const { rate, rules, latencyThreshold, maxPerSecondPerSession } = options.sampling;
+      const isRatio = (value: number) => value >= 0 && value <= 1;
+
+      if (rate !== undefined && !isRatio(rate)) {
+        throw new Error('sampling.rate must be between 0 and 1');
+      }
+      if (rules?.some(rule => !isRatio(rule.rate))) {
+        throw new Error('sampling rule rates must be between 0 and 1');
+      }
+      if (latencyThreshold !== undefined && !(latencyThreshold >= 0)) {
+        throw new Error('sampling.latencyThreshold must be a non-negative number of milliseconds');
+      }
+      if (maxPerSecondPerSession !== undefined && !(maxPerSecondPerSession > 0)) {
+        throw new Error('sampling.maxPerSecondPerSession must be a positive number');
+      }
+    }
   }
 
   private log(level: 'info' | 'warn' | 'error', message: string, data?: any): void {
@@ -463,7 +1614,7 @@ export class TraceMiddleware {
     return message && typeof message.method === 'string' && message.id !== undefined;
   }
 
-  private isJSONRPCResponse(message: any): message is JSONRPCResponse {
+  private isJSONRPCResponse(message: any): message is JSONRPCResponse | JSONRPCError {
     return message && message.id !== undefined && (message.result !== undefined || message.error !== undefined);
   }
 
@@ -505,20 +1656,4 @@ export class TraceMiddleware {
 
     return undefined;
   }
-
-  private getUserInfo(extra?: MessageExtraInfo): { user_id?: string; user_name?: string; user_email?: string } {
-    if (!this.identifyUser || !extra?.requestInfo?.headers) {
-      return {};
-    }
-
-    try {
-      const user = this.identifyUser(extra.requestInfo.headers);
-      return user || {};
-    } catch (error) {
-      this.log('warn', 'Error extracting user information', {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return {};
-    }
-  }
 }
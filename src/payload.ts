@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import { PayloadLimits } from './types';
+
+export type PayloadField = keyof PayloadLimits;
+
+export interface PayloadLimiterOptions {
+  maxPayloadBytes?: number;
+  payloadLimits?: PayloadLimits;
+  summarizeBinary: boolean;
+}
+
+/**
+ * Keeps trace payloads small: base64 content is replaced with a summary and
+ * anything still over its byte limit is cut down to a marked JSON prefix.
+ */
+export class PayloadLimiter {
+  constructor(private options: PayloadLimiterOptions) {}
+
+  /**
+   * Size of a payload in bytes when serialized to JSON.
+   */
+  measure(value: any): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    try {
+      return Buffer.byteLength(JSON.stringify(value) ?? '', 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  limit(field: PayloadField, value: any): any {
+    if (value === undefined || value === null) {
+      return value;
+    }
+
+    const summarized = this.options.summarizeBinary ? summarizeBinary(value) : value;
+    const maxBytes = this.options.payloadLimits?.[field] ?? this.options.maxPayloadBytes;
+    return maxBytes !== undefined ? truncate(summarized, maxBytes) : summarized;
+  }
+}
+
+/**
+ * Replaces base64 `data` of image and audio content and `blob` of resource
+ * contents with their mime type, decoded size and SHA-256 hash.
+ */
+function summarizeBinary(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(summarizeBinary);
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = isBinaryField(value, key, item)
+      ? describeBinary(item, value.mimeType)
+      : summarizeBinary(item);
+  }
+  return result;
+}
+
+function isBinaryField(parent: Record<string, any>, key: string, item: unknown): item is string {
+  if (typeof item !== 'string') {
+    return false;
+  }
+
+  return key === 'blob' || (key === 'data' && (parent.type === 'image' || parent.type === 'audio'));
+}
+
+function describeBinary(base64: string, mimeType: unknown): string {
+  const bytes = Buffer.from(base64, 'base64');
+  const hash = createHash('sha256').update(bytes).digest('hex');
+  const type = typeof mimeType === 'string' && mimeType ? mimeType : 'application/octet-stream';
+  return `[binary ${type}, ${bytes.length} bytes, sha256:${hash}]`;
+}
+
+/**
+ * Returns the value unchanged if its JSON fits in `maxBytes`, otherwise the
+ * first `maxBytes` bytes of the JSON (cut on a character boundary) followed by
+ * a marker with the number of bytes dropped.
+ */
+function truncate(value: any, maxBytes: number): any {
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(value);
+  } catch {
+    return value;
+  }
+  if (json === undefined) {
+    return value;
+  }
+
+  const bytes = Buffer.from(json, 'utf8');
+  if (bytes.length <= maxBytes) {
+    return value;
+  }
+
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) {
+    end--;
+  }
+
+  return `${bytes.subarray(0, end).toString('utf8')}...[truncated ${bytes.length - end} of ${bytes.length} bytes]`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
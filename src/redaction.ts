@@ -0,0 +1,213 @@
+import { createHash } from 'crypto';
+import { matchesPath, parsePath, PathSegment } from './json-path';
+import { PiiDetector, RedactionAction, RedactionOptions, RedactionRule } from './types';
+
+interface Detector {
+  pattern: RegExp;
+  validate?: (match: string, text: string, offset: number) => boolean;
+}
+
+/**
+ * Value detectors, in the order they run. Bearer tokens go before JWTs so the
+ * whole `Bearer eyJ...` value is caught, and card numbers before phone numbers
+ * so their digits aren't taken for one.
+ */
+const DETECTORS: Record<PiiDetector, Detector> = {
+  bearer_token: { pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi },
+  jwt: { pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g },
+  api_key: {
+    pattern: /\b(?:sk|pk|rk)[-_](?:[A-Za-z0-9]+[-_])?[A-Za-z0-9]{16,}\b|\bAKIA[0-9A-Z]{16}\b|\bgh[pousr]_[A-Za-z0-9]{36,}\b|\bAIza[0-9A-Za-z_-]{35}\b|\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g
+  },
+  email: { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  credit_card: { pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: passesLuhn },
+  phone: {
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}\b/g,
+    validate: isStandaloneNumber
+  },
+};
+
+const DETECTOR_ORDER = Object.keys(DETECTORS) as PiiDetector[];
+
+/** Marks an entry that a `remove` rule dropped */
+const REMOVED = Symbol('removed');
+
+interface CompiledRule {
+  paths: PathSegment[][];
+  keys: (string | RegExp)[];
+  detectors: PiiDetector[];
+  action: RedactionAction;
+}
+
+/**
+ * Rule-based redactor behind the `redaction` option of `TraceMiddleware`.
+ * Rules match values by JSON path or key name, or scan strings for PII, and
+ * mask, hash or remove what they match. Inputs are never modified.
+ *
+ * ```ts
+ * const redactor = new Redactor({
+ *   rules: [
+ *     { keys: ['password', /token$/i], action: 'remove' },
+ *     { paths: ['arguments.customer.id'], action: 'hash' },
+ *     { detectors: ['email', 'credit_card'] },
+ *   ],
+ * });
+ * redactor.redact({ arguments: { email: 'jane@example.com' } });
+ * ```
+ */
+export class Redactor {
+  private rules: CompiledRule[];
+  private mask: string;
+  private hashSalt: string;
+
+  constructor(options: RedactionOptions) {
+    this.mask = options.mask ?? '[REDACTED]';
+    this.hashSalt = options.hashSalt ?? '';
+    this.rules = options.rules.map(rule => compileRule(rule));
+  }
+
+  /**
+   * Returns a redacted copy of a payload.
+   */
+  redact(data: any): any {
+    return this.redactValue(data, []);
+  }
+
+  /**
+   * Applies the value detectors to free text such as error messages.
+   */
+  redactText(text: string): string {
+    let result = text;
+    for (const detector of DETECTOR_ORDER) {
+      const rule = this.rules.find(rule => rule.detectors.includes(detector));
+      if (rule) {
+        result = this.replaceMatches(result, detector, rule.action);
+      }
+    }
+    return result;
+  }
+
+  private redactValue(value: any, path: PathSegment[]): any {
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+
+    if (Array.isArray(value)) {
+      const result: any[] = [];
+      value.forEach((item, index) => {
+        const redacted = this.redactEntry(item, [...path, String(index)]);
+        if (redacted !== REMOVED) {
+          result.push(redacted);
+        }
+      });
+      return result;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      const result: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const redacted = this.redactEntry(item, [...path, key]);
+        if (redacted !== REMOVED) {
+          result[key] = redacted;
+        }
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  private redactEntry(value: any, path: PathSegment[]): any {
+    const rule = this.rules.find(rule => matchesEntry(rule, path));
+    if (!rule) {
+      return this.redactValue(value, path);
+    }
+
+    switch (rule.action) {
+      case 'remove':
+        return REMOVED;
+      case 'hash':
+        return this.hash(typeof value === 'string' ? value : JSON.stringify(value) ?? '');
+      default:
+        return this.mask;
+    }
+  }
+
+  private replaceMatches(text: string, detector: PiiDetector, action: RedactionAction): string {
+    const { pattern, validate } = DETECTORS[detector];
+    return text.replace(pattern, (match: string, ...args: any[]) => {
+      const offset = args[args.length - 2] as number;
+      if (validate && !validate(match, text, offset)) {
+        return match;
+      }
+
+      switch (action) {
+        case 'remove':
+          return '';
+        case 'hash':
+          return `[${detector}:${this.hash(match)}]`;
+        default:
+          return `[REDACTED:${detector}]`;
+      }
+    });
+  }
+
+  private hash(value: string): string {
+    return `sha256:${createHash('sha256').update(this.hashSalt + value).digest('hex').slice(0, 16)}`;
+  }
+}
+
+function compileRule(rule: RedactionRule): CompiledRule {
+  for (const detector of rule.detectors ?? []) {
+    if (!DETECTORS[detector]) {
+      throw new Error(`Unknown redaction detector: ${detector}`);
+    }
+  }
+
+  return {
+    paths: (rule.paths ?? []).map(parsePath),
+    keys: (rule.keys ?? []).map(key => typeof key === 'string' ? key.toLowerCase() : key),
+    detectors: rule.detectors ?? [],
+    action: rule.action ?? 'mask',
+  };
+}
+
+function matchesEntry(rule: CompiledRule, path: PathSegment[]): boolean {
+  const key = path[path.length - 1];
+  const keyMatches = rule.keys.some(pattern => {
+    if (typeof pattern === 'string') {
+      return pattern === key.toLowerCase();
+    }
+    pattern.lastIndex = 0;
+    return pattern.test(key);
+  });
+
+  return keyMatches || rule.paths.some(pattern => matchesPath(pattern, path));
+}
+
+/**
+ * Rejects matches that are only part of a longer run of digit groups, such as
+ * a card number that failed the Luhn check.
+ */
+function isStandaloneNumber(match: string, text: string, offset: number): boolean {
+  const before = text.slice(Math.max(0, offset - 2), offset);
+  const after = text.slice(offset + match.length, offset + match.length + 2);
+  return !/\d[\s.-]?$/.test(before) && !/^[\s.-]?\d/.test(after);
+}
+
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
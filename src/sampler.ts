@@ -0,0 +1,79 @@
+import { SamplingOptions, SamplingRule, TraceData } from './types';
+
+interface RateWindow {
+  start: number;
+  count: number;
+}
+
+/**
+ * Decides which request and notification traces are kept, following the
+ * `sampling` option of `TraceMiddleware`.
+ */
+export class Sampler {
+  private windows = new Map<string, RateWindow>();
+
+  constructor(private options: SamplingOptions, private random: () => number = Math.random) {}
+
+  /**
+   * Returns the rate a trace is kept at, or undefined if it should be dropped.
+   */
+  sample(traceData: TraceData, now = Date.now()): number | undefined {
+    if (this.options.keepErrors !== false && traceData.is_error) {
+      return 1;
+    }
+
+    const threshold = this.options.latencyThreshold;
+    if (threshold !== undefined && traceData.duration !== undefined && traceData.duration >= threshold) {
+      return 1;
+    }
+
+    const rate = this.findRule(traceData)?.rate ?? this.options.rate ?? 1;
+    if (rate <= 0 || (rate < 1 && this.random() >= rate)) {
+      return undefined;
+    }
+
+    if (!this.withinRateLimit(traceData.session_id, now)) {
+      return undefined;
+    }
+
+    return rate;
+  }
+
+  /**
+   * Drops the rate limit window of a session that has ended.
+   */
+  forget(sessionId: string): void {
+    this.windows.delete(sessionId);
+  }
+
+  clear(): void {
+    this.windows.clear();
+  }
+
+  private findRule(traceData: TraceData): SamplingRule | undefined {
+    return this.options.rules?.find(rule =>
+      (rule.method === undefined || rule.method === traceData.method) &&
+      (rule.entity_name === undefined || rule.entity_name === traceData.entity_name)
+    );
+  }
+
+  private withinRateLimit(sessionId: string, now: number): boolean {
+    const limit = this.options.maxPerSecondPerSession;
+    if (limit === undefined) {
+      return true;
+    }
+
+    let window = this.windows.get(sessionId);
+    if (!window || now - window.start >= 1000) {
+      window = { start: now, count: 0 };
+      this.windows.set(sessionId, window);
+    }
+
+    if (window.count >= limit) {
+      return false;
+    }
+
+    window.count++;
+    return true;
+  }
+}
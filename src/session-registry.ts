@@ -0,0 +1,156 @@
+import { SessionSummary, TraceSide } from './types';
+
+/**
+ * Client details captured from the `initialize` handshake of a session,
+ * plus the running counters used to build its end-of-session summary.
+ */
+export interface SessionInfo {
+  session_id: string;
+  side?: TraceSide;
+  client_name?: string;
+  client_version?: string;
+  client_capabilities?: Record<string, any>;
+  protocol_version?: string;
+  server_name?: string;
+  server_version?: string;
+  started_at: number;
+
+  user_id?: string;
+  user_name?: string;
+  user_email?: string;
+
+  request_count: number;
+  requests_by_method: Record<string, number>;
+  requests_by_tool: Record<string, number>;
+  error_count: number;
+  transport_error_count: number;
+  total_latency_ms: number;
+  slowest_latency_ms: number;
+  slowest_method?: string;
+}
+
+/**
+ * A finished request as counted towards its session's summary.
+ */
+export interface SessionRequest {
+  method?: string;
+  tool_name?: string;
+  duration: number;
+  is_error?: boolean;
+}
+
+type SessionDetails = Partial<Pick<SessionInfo,
+  'session_id' | 'side' | 'client_name' | 'client_version' | 'client_capabilities' | 'protocol_version' |
+  'server_name' | 'server_version' | 'user_id' | 'user_name' | 'user_email'>>;
+
+/**
+ * Keeps per-session client information keyed by session id so it can be
+ * stamped onto every trace recorded for that session.
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, SessionInfo>();
+
+  get(key: string): SessionInfo | undefined {
+    return this.sessions.get(key);
+  }
+
+  /**
+   * Creates or updates the entry for a session, merging in the given fields.
+   */
+  update(key: string, info: SessionDetails): SessionInfo {
+    const existing = this.sessions.get(key) ?? {
+      session_id: key,
+      started_at: Date.now(),
+      request_count: 0,
+      requests_by_method: {},
+      requests_by_tool: {},
+      error_count: 0,
+      transport_error_count: 0,
+      total_latency_ms: 0,
+      slowest_latency_ms: 0,
+    };
+
+    const updated: SessionInfo = { ...existing };
+    for (const [field, value] of Object.entries(info)) {
+      if (value !== undefined) {
+        (updated as any)[field] = value;
+      }
+    }
+    this.sessions.set(key, updated);
+    return updated;
+  }
+
+  /**
+   * Counts a finished request towards the session's summary.
+   */
+  recordRequest(key: string, request: SessionRequest): void {
+    const session = this.sessions.get(key);
+    if (!session) return;
+
+    session.request_count++;
+    if (request.method) {
+      session.requests_by_method[request.method] = (session.requests_by_method[request.method] ?? 0) + 1;
+    }
+    if (request.tool_name) {
+      session.requests_by_tool[request.tool_name] = (session.requests_by_tool[request.tool_name] ?? 0) + 1;
+    }
+    if (request.is_error) {
+      session.error_count++;
+    }
+
+    session.total_latency_ms += request.duration;
+    if (session.request_count === 1 || request.duration > session.slowest_latency_ms) {
+      session.slowest_latency_ms = request.duration;
+      session.slowest_method = request.method;
+    }
+  }
+
+  recordTransportError(key: string): void {
+    const session = this.sessions.get(key);
+    if (session) {
+      session.transport_error_count++;
+    }
+  }
+
+  summarize(session: SessionInfo, now = Date.now()): SessionSummary {
+    return {
+      duration: now - session.started_at,
+      request_count: session.request_count,
+      requests_by_method: { ...session.requests_by_method },
+      requests_by_tool: { ...session.requests_by_tool },
+      error_count: session.error_count,
+      transport_error_count: session.transport_error_count,
+      total_latency_ms: session.total_latency_ms,
+      slowest_latency_ms: session.slowest_latency_ms,
+      slowest_method: session.slowest_method,
+    };
+  }
+
+  /**
+   * Moves a session to a new key, e.g. once a client learns its session id
+   * from the `initialize` response.
+   */
+  rename(from: string, to: string): void {
+    const session = this.sessions.get(from);
+    if (!session || from === to) return;
+
+    this.sessions.delete(from);
+    this.sessions.set(to, session);
+  }
+
+  delete(key: string): void {
+    this.sessions.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+}
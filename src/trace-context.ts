@@ -0,0 +1,55 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * W3C trace context (https://www.w3.org/TR/trace-context/) read from a
+ * `traceparent` header or `_meta` entry.
+ */
+export interface TraceContext {
+  trace_id: string;
+  parent_span_id?: string;
+  trace_flags?: string;
+  trace_state?: string;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Parses a `traceparent` value. Returns undefined for malformed values and
+ * for the all-zero ids the spec marks as invalid.
+ */
+export function parseTraceparent(traceparent: unknown, tracestate?: unknown): TraceContext | undefined {
+  if (typeof traceparent !== 'string') {
+    return undefined;
+  }
+
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, parentSpanId, traceFlags] = match;
+  if (version === 'ff' || traceId === INVALID_TRACE_ID || parentSpanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  return {
+    trace_id: traceId,
+    parent_span_id: parentSpanId,
+    trace_flags: traceFlags,
+    trace_state: typeof tracestate === 'string' && tracestate.length > 0 ? tracestate : undefined,
+  };
+}
+
+export function formatTraceparent(traceId: string, spanId: string, traceFlags = '01'): string {
+  return `00-${traceId}-${spanId}-${traceFlags}`;
+}
+
+export function generateTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+export function generateSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
@@ -0,0 +1,161 @@
+import { createReadStream, existsSync } from 'fs';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { createGunzip } from 'zlib';
+import { listRotatedFiles } from './adapters/file-adapter';
+import { RecordedSession, TraceData, TraceFilter, TraceReaderOptions } from './types';
+
+/**
+ * Reads traces back from the JSON lines files written by `FileAdapter`,
+ * streaming them so large files are never loaded whole. Gzipped files are
+ * decompressed on the fly.
+ *
+ * ```ts
+ * const reader = new TraceReader('./traces.jsonl', { includeRotated: true });
+ * for await (const trace of reader.read({ method: 'tools/call', is_error: true, from: '2026-01-31T00:00:00Z' })) {
+ *   console.log(trace.timestamp, trace.entity_name, trace.error);
+ * }
+ * ```
+ */
+export class TraceReader {
+  private files: string[];
+  private includeRotated: boolean;
+
+  constructor(files: string | string[], options: TraceReaderOptions = {}) {
+    this.files = Array.isArray(files) ? files : [files];
+    this.includeRotated = options.includeRotated ?? false;
+  }
+
+  /**
+   * Yields the traces matching the filter, in file order.
+   */
+  async *read(filter: TraceFilter = {}): AsyncGenerator<TraceData> {
+    const matches = compileFilter(filter);
+    for await (const trace of this.readAll()) {
+      if (matches(trace)) {
+        yield trace;
+      }
+    }
+  }
+
+  /**
+   * Groups traces by session. A session is yielded once its `session_end` is
+   * read, and sessions still open at the end of the files are yielded last.
+   * Sessions without any trace matching the filter are skipped.
+   */
+  async *sessions(filter: TraceFilter = {}): AsyncGenerator<RecordedSession> {
+    const matches = compileFilter(filter);
+    const open = new Map<string, RecordedSession>();
+
+    for await (const trace of this.readAll()) {
+      const sessionId = trace.session_id ?? '';
+      let session = open.get(sessionId);
+      if (!session) {
+        session = { session_id: sessionId, ended: false, traces: [] };
+        open.set(sessionId, session);
+      }
+
+      if (!session.started_at) {
+        session.started_at = trace.timestamp;
+      }
+      session.ended_at = trace.timestamp;
+      if (matches(trace)) {
+        session.traces.push(trace);
+      }
+
+      // Sessions without an id (stdio) share '', so a new one may follow
+      if (trace.type === 'session_end') {
+        session.ended = true;
+        session.session_summary = trace.session_summary;
+        open.delete(sessionId);
+        if (session.traces.length > 0) {
+          yield session;
+        }
+      }
+    }
+
+    for (const session of open.values()) {
+      if (session.traces.length > 0) {
+        yield session;
+      }
+    }
+  }
+
+  private async *readAll(): AsyncGenerator<TraceData> {
+    for (const file of this.files) {
+      if (this.includeRotated) {
+        const rotated = await listRotatedFiles(file);
+        for (const path of rotated) {
+          // While a file is being compressed its plain copy is still there
+          if (rotated.includes(`${path}.gz`)) continue;
+          // Pruning may delete a rotated file before it is opened
+          yield* readFile(path, true);
+        }
+        if (!existsSync(file)) continue;
+      }
+      yield* readFile(file);
+    }
+  }
+}
+
+async function* readFile(path: string, skipMissing = false): AsyncGenerator<TraceData> {
+  const input = createReadStream(path);
+  let source: Readable = input;
+  if (path.endsWith('.gz')) {
+    const gunzip = createGunzip();
+    // `pipe` doesn't forward errors; without this an unreadable file would be
+    // an unhandled error instead of a rejection of the iteration
+    input.on('error', error => gunzip.destroy(error));
+    source = input.pipe(gunzip);
+  }
+  const lines = createInterface({ input: source, crlfDelay: Infinity });
+
+  try {
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      let trace: TraceData;
+      try {
+        trace = JSON.parse(line);
+      } catch {
+        // The last line of a file may be cut short if the process died mid-write
+        console.warn(`[TraceReader] Skipping malformed line ${lineNumber} of ${path}`);
+        continue;
+      }
+      yield trace;
+    }
+  } catch (error) {
+    if (skipMissing && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  } finally {
+    lines.close();
+    source.destroy();
+    input.destroy();
+  }
+}
+
+function compileFilter(filter: TraceFilter): (trace: TraceData) => boolean {
+  const from = filter.from !== undefined ? new Date(filter.from).getTime() : undefined;
+  const to = filter.to !== undefined ? new Date(filter.to).getTime() : undefined;
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    throw new Error('from and to must be valid dates');
+  }
+
+  return (trace) => {
+    if (from !== undefined || to !== undefined) {
+      const timestamp = new Date(trace.timestamp).getTime();
+      if (from !== undefined && !(timestamp >= from)) return false;
+      if (to !== undefined && !(timestamp <= to)) return false;
+    }
+
+    return (filter.session_id === undefined || trace.session_id === filter.session_id) &&
+      (filter.method === undefined || trace.method === filter.method) &&
+      (filter.entity_name === undefined || trace.entity_name === filter.entity_name) &&
+      (filter.user_id === undefined || trace.user_id === filter.user_id) &&
+      (filter.is_error === undefined || (trace.is_error ?? false) === filter.is_error);
+  };
+}
@@ -1,9 +1,21 @@
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport';
+import { JSONRPCMessage, MessageExtraInfo } from '@modelcontextprotocol/sdk/types';
+import { TraceMetrics } from './metrics';
+import { SessionInfo } from './session-registry';
+
 export interface TraceData {
     type: string;
+    side?: TraceSide;
+    direction?: TraceDirection;
+    status?: RequestStatus;
+    status_reason?: string;
     method?: string;
     entity_name?: string;
     request?: any;
     response?: any;
+    /** Size in bytes of the request and response as JSON, before redaction and truncation */
+    request_size?: number;
+    response_size?: number;
 
     timestamp: string;
     duration?: number;
@@ -11,6 +23,11 @@ export interface TraceData {
     id?: string;
     session_id: string;
 
+    trace_id?: string;
+    span_id?: string;
+    parent_span_id?: string;
+    trace_state?: string;
+
     user_id?: string;
     user_name?: string;
     user_email?: string;
@@ -18,6 +35,8 @@ export interface TraceData {
     client_id?: string;
     client_name?: string;
     client_version?: string;
+    client_capabilities?: Record<string, any>;
+    protocol_version?: string;
 
     server_id?: string;
     server_name?: string;
@@ -25,6 +44,10 @@ export interface TraceData {
 
     is_error?: boolean;
     error?: string;
+    error_type?: ErrorType;
+    error_code?: number;
+    error_message?: string;
+    error_data?: any;
 
     ip_address?: string;
 
@@ -34,8 +57,115 @@ export interface TraceData {
     mcp_trace_version?: string;
 
     metadata?: Record<string, any>;
+
+    /**
+     * Ratio this trace was sampled at when `sampling` is enabled, so backends can
+     * extrapolate counts (each kept trace stands for `1 / sample_rate` traces).
+     */
+    sample_rate?: number;
+
+    progress?: ProgressSummary;
+    progress_events?: ProgressEvent[];
+
+    /** Recorded by request handlers through `getCurrentTrace()` */
+    annotations?: Record<string, any>;
+    events?: TraceEvent[];
+    spans?: TraceSpan[];
+
+    session_summary?: SessionSummary;
 }
 
+/**
+ * An event recorded with `getCurrentTrace().addEvent()`.
+ */
+export interface TraceEvent {
+    name: string;
+    timestamp: string;
+    attributes?: Record<string, any>;
+}
+
+/**
+ * A sub-step of a request recorded with `getCurrentTrace().startSpan()`.
+ * `parent_span_id` is the request's span or the span it was started from.
+ */
+export interface TraceSpan {
+    name: string;
+    span_id: string;
+    parent_span_id?: string;
+    start_time: string;
+    end_time?: string;
+    duration?: number;
+    attributes?: Record<string, any>;
+    is_error?: boolean;
+    error?: string;
+}
+
+/**
+ * End-of-session summary carried by `session_end` traces.
+ * `duration` is the session length in milliseconds.
+ */
+export interface SessionSummary {
+    duration: number;
+    request_count: number;
+    requests_by_method: Record<string, number>;
+    requests_by_tool: Record<string, number>;
+    error_count: number;
+    transport_error_count: number;
+    total_latency_ms: number;
+    slowest_latency_ms: number;
+    slowest_method?: string;
+}
+
+/**
+ * A `notifications/progress` update received for a traced request.
+ */
+export interface ProgressEvent {
+    timestamp: string;
+    progress: number;
+    total?: number;
+    message?: string;
+}
+
+/**
+ * Progress timeline of a request that reported progress, attached to its final trace.
+ */
+export interface ProgressSummary {
+    count: number;
+    progress: number;
+    total?: number;
+    message?: string;
+    time_to_first_ms: number;
+    avg_interval_ms: number;
+    max_interval_ms: number;
+}
+
+/**
+ * Which end of the connection recorded the trace: an MCP server traced with
+ * `init()` or an MCP client traced with `initClient()`.
+ */
+export type TraceSide = 'server' | 'client';
+
+/**
+ * Whether the traced request or notification was received (`inbound`) or
+ * sent (`outbound`) by the traced side, e.g. `sampling/createMessage` sent
+ * by a server to its client is `outbound`.
+ */
+export type TraceDirection = 'inbound' | 'outbound';
+
+/**
+ * How a traced request ended: answered by a response (`completed`), never
+ * answered in time (`timeout`), cancelled via `notifications/cancelled`
+ * (`cancelled`), or still in flight when its connection closed or the
+ * middleware shut down (`aborted`).
+ */
+export type RequestStatus = 'completed' | 'timeout' | 'cancelled' | 'aborted';
+
+/**
+ * Where a failure was reported: a JSON-RPC error response (`protocol`)
+ * or a tool result with `isError: true` (`tool`).
+ */
+export type ErrorType = 'protocol' | 'tool';
+
 export interface LogFields {
     type?: boolean;
     method?: boolean;
@@ -44,6 +174,8 @@ export interface LogFields {
     client_id?: boolean;
     duration?: boolean;
     entity_name?: boolean;
+    request?: boolean;
+    /** @deprecated Use `request`; `arguments: false` is treated as `request: false` */
     arguments?: boolean;
     response?: boolean;
     error?: boolean;
@@ -63,11 +195,364 @@ export interface User {
     user_email: string;
 }
 
-export type IdentifyUser = (headers: Record<string, string | string[] | undefined>) => User | undefined;
+/**
+ * Identifies the traced server. Any field left unset is taken from the
+ * implementation info the server was constructed with.
+ */
+export interface ServerInfo {
+    server_id?: string;
+    server_name?: string;
+    server_version?: string;
+}
+
+/**
+ * Identifies the user of a request from its headers. Prefer `UserIdentifier`,
+ * which also sees `authInfo` and may be async.
+ */
+export type IdentifyUser = (headers: Record<string, string | string[] | undefined>) => Partial<User> | undefined;
+
+/**
+ * Identifies the user of a session from the first message that carries
+ * headers or auth info. The result is cached for the rest of the session.
+ */
+export type UserIdentifier = (extra: MessageExtraInfo) => Partial<User> | undefined | Promise<Partial<User> | undefined>;
+
+export interface JwtIdentifierOptions {
+    /**
+     * Claim read for each user field. Nested claims can be given as dotted
+     * paths such as `profile.email`. Defaults to `sub`, `name` and `email`.
+     */
+    claims?: Partial<Record<keyof User, string>>;
+    /** Local JWKS file to verify token signatures against. Without it tokens are only decoded. */
+    jwksPath?: string;
+    /** Required `iss` claim, checked when `jwksPath` is set */
+    issuer?: string;
+    /** Required `aud` claim, checked when `jwksPath` is set */
+    audience?: string;
+    /** Leeway in seconds for `exp` and `nbf`. Defaults to 60. */
+    clockTolerance?: number;
+}
+
+/**
+ * Decides whether a message should be traced. Return `false` to skip it.
+ * Skipping a request also skips its response and any notifications sent on its behalf.
+ */
+export type ShouldTrace = (message: JSONRPCMessage, extra?: MessageExtraInfo) => boolean;
+
+/**
+ * Sampling ratio for matching traces. A rule matches when all of the fields it
+ * sets match; the first matching rule wins.
+ */
+export interface SamplingRule {
+    method?: string;
+    entity_name?: string;
+    /** Ratio of matching traces to keep, from 0 to 1 */
+    rate: number;
+}
+
+export interface SamplingOptions {
+    /** Ratio of traces to keep when no rule matches. Defaults to 1. */
+    rate?: number;
+    rules?: SamplingRule[];
+    /** Always keep traces of failed requests. Defaults to true. */
+    keepErrors?: boolean;
+    /** Always keep requests that took at least this many milliseconds */
+    latencyThreshold?: number;
+    /**
+     * Most traces kept per second for each session. Errors and slow requests
+     * kept by the rules above don't count against it.
+     */
+    maxPerSecondPerSession?: number;
+}
+
+/**
+ * Byte limits for individual payload fields, overriding `maxPayloadBytes`.
+ */
+export interface PayloadLimits {
+    request?: number;
+    response?: number;
+    error_data?: number;
+}
+
+export type PiiDetector = 'email' | 'phone' | 'credit_card' | 'jwt' | 'api_key' | 'bearer_token';
+
+/**
+ * `mask` replaces a match with a placeholder, `hash` with a salted SHA-256
+ * prefix that stays stable across traces, and `remove` drops it.
+ */
+export type RedactionAction = 'mask' | 'hash' | 'remove';
+
+export interface RedactionRule {
+    /** JSON paths relative to the payload, e.g. `arguments.user.email` or `$.items[*].ssn` */
+    paths?: string[];
+    /** Key names matched anywhere in the payload; strings match case-insensitively */
+    keys?: (string | RegExp)[];
+    /** Detectors run over every string value and over error text */
+    detectors?: PiiDetector[];
+    /** Defaults to `mask` */
+    action?: RedactionAction;
+}
+
+export interface RedactionOptions {
+    rules: RedactionRule[];
+    /** Placeholder used by `mask` for path and key matches. Defaults to `[REDACTED]`. */
+    mask?: string;
+    /** Salt mixed into `hash` results */
+    hashSalt?: string;
+}
+
+/**
+ * What an `enrich` hook knows about the trace it is enriching. For request
+ * traces `message` and `extra` are those of the request; session events have
+ * neither.
+ */
+export interface EnrichContext {
+    message?: JSONRPCMessage;
+    extra?: MessageExtraInfo;
+    transport?: Transport;
+    session?: SessionInfo;
+}
+
+/**
+ * Adds fields such as `metadata` or `context` to a trace before it is filtered,
+ * redacted and exported. It can modify the trace in place or return a new one.
+ */
+export type EnrichFunction = (traceData: TraceData, context: EnrichContext) => TraceData | void | Promise<TraceData | void>;
+
+export interface TraceReaderOptions {
+    /**
+     * Also read the files a `FileAdapter` rotated from each given path, oldest
+     * first and before the path itself. Defaults to false.
+     */
+    includeRotated?: boolean;
+}
+
+/**
+ * Selects traces read by a `TraceReader` or searched in a database adapter.
+ * Every field that is set must match.
+ */
+export interface TraceFilter {
+    /** Earliest trace timestamp, inclusive */
+    from?: Date | string;
+    /** Latest trace timestamp, inclusive */
+    to?: Date | string;
+    session_id?: string;
+    method?: string;
+    entity_name?: string;
+    user_id?: string;
+    is_error?: boolean;
+}
+
+/**
+ * The traces of one session, as grouped by `TraceReader.sessions()`.
+ */
+export interface RecordedSession {
+    session_id: string;
+    /** First and last trace timestamps read for the session */
+    started_at?: string;
+    ended_at?: string;
+    /** Whether the session's `session_end` trace was read */
+    ended: boolean;
+    session_summary?: SessionSummary;
+    /** The session's traces matching the filter, in file order */
+    traces: TraceData[];
+}
+
+/**
+ * A row of the trace table of the PostgreSQL and Supabase adapters. The
+ * JSON-RPC id of the traced message is stored in the `trace_id` column and
+ * returned as `request_id`; `trace_id` is the W3C trace id, which is kept in
+ * the metadata along with the other fields the table has no column for.
+ */
+export interface StoredTrace {
+    id: number;
+    timestamp: string;
+    type: TraceData['type'];
+    direction?: TraceDirection;
+    status?: RequestStatus;
+    method?: string;
+    entity_name?: string;
+    request?: any;
+    response?: any;
+    duration?: number;
+    /** JSON-RPC id of the traced message */
+    request_id?: string;
+    trace_id?: string;
+    span_id?: string;
+    parent_span_id?: string;
+    session_id: string;
+    user_id?: string;
+    user_name?: string;
+    user_email?: string;
+    client_id?: string;
+    client_name?: string;
+    client_version?: string;
+    server_id?: string;
+    server_name?: string;
+    server_version?: string;
+    is_error?: boolean;
+    error?: string;
+    error_code?: number;
+    ip_address?: string;
+    context?: string;
+    sdk_language?: string;
+    sdk_version?: string;
+    mcp_trace_version?: string;
+    /** Trace metadata, with any annotations, events, spans, `sample_rate`, `session_summary` and the fields above kept in it */
+    metadata?: Record<string, any>;
+}
+
+export interface TraceQuery extends TraceFilter {
+    /** Traces per page, newest first. Defaults to 100, at most 1000. */
+    limit?: number;
+    /** `next_cursor` of the previous page */
+    cursor?: string;
+}
+
+export interface TracePage {
+    traces: StoredTrace[];
+    /** Pass as `cursor` to fetch the next page; unset on the last page */
+    next_cursor?: string;
+}
+
+export type StatsInterval = 'minute' | 'hour' | 'day';
+
+export interface ToolStatsQuery {
+    from?: Date | string;
+    to?: Date | string;
+    /** Width of the time buckets (UTC). Defaults to `hour`. */
+    interval?: StatsInterval;
+    /** Method whose requests are aggregated per `entity_name`. Defaults to `tools/call`. */
+    method?: string;
+    entity_name?: string;
+}
+
+/**
+ * Latency and errors of one tool (or other entity) in one time bucket.
+ * Durations are in milliseconds.
+ *
+ * With sampling enabled, each recorded request counts as `1 / sample_rate`
+ * requests in `count`, `error_count`, `error_rate` and `avg_duration`. The
+ * percentiles are taken over the recorded requests only, so they lean towards
+ * the failed and slow requests sampling always keeps.
+ */
+export interface ToolStats {
+    /** Start of the bucket, as an ISO timestamp */
+    bucket: string;
+    entity_name: string;
+    /** Requests in the bucket, extrapolated from the sampled ones */
+    count: number;
+    error_count: number;
+    error_rate: number;
+    /** Requests actually recorded in the bucket */
+    sampled_count: number;
+    avg_duration: number | null;
+    p50_duration: number | null;
+    p95_duration: number | null;
+    p99_duration: number | null;
+}
+
+export interface MetricsOptions {
+    /** Prefix of every metric name. Defaults to `mcp`. */
+    prefix?: string;
+    /** Upper bounds of the request duration histogram buckets, in seconds */
+    buckets?: number[];
+}
+
+/**
+ * Counters and duration histogram of one label combination. `status` is
+ * `ok` or `error`; `entity` and `client` are empty when unknown.
+ */
+export interface RequestMetrics {
+    labels: { method: string; entity: string; client: string; status: string };
+    count: number;
+    /** Total duration in seconds */
+    duration_sum: number;
+    /** Cumulative counts of requests at or below each bucket's `le` seconds */
+    duration_buckets: { le: number; count: number }[];
+}
+
+export interface MetricsSnapshot {
+    requests: RequestMetrics[];
+    active_sessions: number;
+    pending_requests: number;
+}
+
+/**
+ * Which parts of a payload to record. Paths are relative to the payload, e.g.
+ * `arguments.query` within a `tools/call` request. `include` keeps only the
+ * listed paths; `exclude` then drops paths from what is left.
+ */
+export interface FieldCapture {
+    include?: string[];
+    exclude?: string[];
+}
+
+/**
+ * What to record of the requests and responses a policy matches. A policy
+ * matches when all of `method` and `entity_name` it sets match; for each field,
+ * the first matching policy that sets it decides. `false` drops the field.
+ */
+export interface CapturePolicy {
+    method?: string;
+    entity_name?: string;
+    request?: boolean | FieldCapture;
+    response?: boolean | FieldCapture;
+}
+
+export interface TraceTransportOptions {
+    /**
+     * Which end of the connection this transport is: `server` when it carries
+     * requests from a client, `client` when it carries requests to a server.
+     */
+    role: TraceSide;
+    /**
+     * Session id stamped onto traces from this transport. Use the same id for
+     * both legs of a proxy to correlate them. Defaults to the transport's session id.
+     */
+    sessionId?: string;
+}
 
 export interface TraceMiddlewareOptions {
     adapter: TraceAdapter;
     logFields?: LogFields;
+    capture?: CapturePolicy[];
     redact?: RedactFunction;
+    /**
+     * Built-in rule-based redaction of request, response, error text, error data
+     * and metadata. Runs before `redact` when both are set.
+     */
+    redaction?: RedactionOptions;
     identifyUser?: IdentifyUser;
+    /**
+     * Resolves the user of each session, e.g. from `authInfo` or a JWT. Use it
+     * instead of `identifyUser`, not alongside it.
+     */
+    userIdentifier?: UserIdentifier;
+    enrich?: EnrichFunction;
+    shouldTrace?: ShouldTrace;
+    serverInfo?: ServerInfo;
+    /**
+     * Time in milliseconds to wait for a response before a request is traced
+     * as timed out. Defaults to 5 minutes.
+     */
+    requestTimeout?: number;
+    /**
+     * Drops a share of request and notification traces before they reach the
+     * adapter. Session events are never sampled.
+     */
+    sampling?: SamplingOptions;
+    /** Collects request metrics; see `TraceMetrics` */
+    metrics?: TraceMetrics;
+    /**
+     * Largest JSON size in bytes kept for `request`, `response` and `error_data`.
+     * Bigger payloads are cut and end with a `...[truncated N of M bytes]` marker.
+     */
+    maxPayloadBytes?: number;
+    payloadLimits?: PayloadLimits;
+    /**
+     * Replaces base64 image/audio `data` and resource `blob` content with its
+     * mime type, size and SHA-256 hash. Defaults to true.
+     */
+    summarizeBinary?: boolean;
 } 
\ No newline at end of file
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { TraceData } from '../src';
+import { CapturePolicies } from '../src/capture';
+import { omitPaths, parsePath, pickPaths } from '../src/json-path';
+
+function toolCall(name: string, request: any, response: any): TraceData {
+  return { type: 'request', timestamp: '2026-01-31T00:00:00.000Z', session_id: 'session', method: 'tools/call', entity_name: name, request, response };
+}
+
+describe('json paths', () => {
+  const value = {
+    query: 'q',
+    items: [
+      { id: 1, ssn: 'a', tags: ['x', 'y'] },
+      { id: 2, ssn: 'b', tags: ['z'] },
+    ],
+  };
+
+  test('parses dotted, indexed and rooted paths alike', () => {
+    assert.deepEqual(parsePath('$.items[*].ssn'), ['items', '*', 'ssn']);
+    assert.deepEqual(parsePath('items.0.tags[1]'), ['items', '0', 'tags', '1']);
+  });
+
+  test('picks only the selected paths and keeps arrays dense', () => {
+    assert.deepEqual(pickPaths(value, [parsePath('items[*].id')]), { items: [{ id: 1 }, { id: 2 }] });
+    assert.deepEqual(pickPaths(value, [parsePath('items[1].tags'), parsePath('query')]), { query: 'q', items: [{ tags: ['z'] }] });
+    assert.deepEqual(
+      pickPaths(value, [parsePath('items[*].id'), parsePath('items[1].ssn')]),
+      { items: [{ id: 1 }, { id: 2, ssn: 'b' }] }
+    );
+    assert.equal(pickPaths(value, [parsePath('missing')]), undefined);
+  });
+
+  test('omits the selected paths without touching the input', () => {
+    assert.deepEqual(omitPaths(value, [parsePath('items[*].ssn'), parsePath('items[0].tags[0]')]), {
+      query: 'q',
+      items: [{ id: 1, tags: ['y'] }, { id: 2, tags: ['z'] }],
+    });
+    assert.equal(value.items[0].ssn, 'a');
+  });
+});
+
+describe('CapturePolicies', () => {
+  const policies = new CapturePolicies([
+    { entity_name: 'getSecret', response: false },
+    {
+      entity_name: 'search',
+      request: { include: ['arguments.query'] },
+      response: { include: ['content[*].text'], exclude: ['content[1]'] },
+    },
+    { method: 'tools/call', request: { exclude: ['arguments.password'] } },
+  ]);
+  const request = { name: 'x', arguments: { query: 'q', password: 'p' } };
+  const response = { content: [{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }] };
+
+  test('drops a field set to false', () => {
+    const captured = policies.apply(toolCall('getSecret', request, response));
+    assert.equal(captured.response, undefined);
+    assert.deepEqual(captured.request, { name: 'x', arguments: { query: 'q' } });
+  });
+
+  test('applies include before exclude', () => {
+    assert.deepEqual(policies.apply(toolCall('search', request, response)), {
+      request: { arguments: { query: 'q' } },
+      response: { content: [{ text: 'a' }] },
+    });
+  });
+
+  test('lets the first policy that sets a field decide it', () => {
+    assert.deepEqual(policies.apply(toolCall('other', request, response)), {
+      request: { name: 'x', arguments: { query: 'q' } },
+      response,
+    });
+  });
+});
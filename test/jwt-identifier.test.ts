@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, KeyObject, sign } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, test } from 'node:test';
+import { MessageExtraInfo } from '@modelcontextprotocol/sdk/types';
+import { createJwtUserIdentifier, JwtIdentifierOptions } from '../src';
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Builds an ES256 token, or an unsigned one for `alg: none`.
+ */
+function createToken(header: Record<string, unknown>, claims: Record<string, unknown>, key?: KeyObject): string {
+  const signingInput = `${base64url(header)}.${base64url(claims)}`;
+  const signature = key
+    ? sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' }).toString('base64url')
+    : '';
+  return `${signingInput}.${signature}`;
+}
+
+function bearer(token: string): MessageExtraInfo {
+  return { requestInfo: { headers: { authorization: `Bearer ${token}` } } };
+}
+
+describe('createJwtUserIdentifier', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'jwt-identifier-'));
+  const signing = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const other = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { sub: 'user-1', name: 'Jane', iss: 'https://auth.example.com/', aud: 'mcp', exp: now + 600 };
+
+  const writeJwks = (name: string, keys: Record<string, KeyObject>): string => {
+    const path = join(directory, name);
+    const jwks = Object.entries(keys).map(([kid, key]) => ({ ...key.export({ format: 'jwk' }), kid, alg: 'ES256', use: 'sig' }));
+    writeFileSync(path, JSON.stringify({ keys: jwks }));
+    return path;
+  };
+  const jwksPath = writeJwks('jwks.json', { signing: signing.publicKey, other: other.publicKey });
+
+  const identify = (token: string, options: JwtIdentifierOptions = {}) =>
+    createJwtUserIdentifier({ jwksPath, ...options })(bearer(token));
+
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  test('reads the user from a token signed by a JWKS key', () => {
+    const token = createToken({ alg: 'ES256', kid: 'signing' }, claims, signing.privateKey);
+    assert.deepEqual(identify(token, { issuer: claims.iss, audience: 'mcp' }), { user_id: 'user-1', user_name: 'Jane' });
+  });
+
+  test('rejects a token signed by another key', () => {
+    const token = createToken({ alg: 'ES256', kid: 'signing' }, claims, other.privateKey);
+    assert.throws(() => identify(token), /signature verification failed/);
+  });
+
+  test('rejects a token whose claims were changed', () => {
+    const [header, , signature] = createToken({ alg: 'ES256', kid: 'signing' }, claims, signing.privateKey).split('.');
+    const token = `${header}.${base64url({ ...claims, sub: 'admin' })}.${signature}`;
+    assert.throws(() => identify(token), /signature verification failed/);
+  });
+
+  test('rejects unsigned tokens', () => {
+    const token = createToken({ alg: 'none', kid: 'signing' }, claims);
+    assert.throws(() => identify(token), /Unsupported JWT algorithm: none/);
+  });
+
+  test('checks exp, nbf, iss and aud', () => {
+    const signed = (extra: Record<string, unknown>) =>
+      createToken({ alg: 'ES256', kid: 'signing' }, { ...claims, ...extra }, signing.privateKey);
+
+    assert.throws(() => identify(signed({ exp: now - 120 })), /expired/);
+    assert.throws(() => identify(signed({ nbf: now + 120 })), /not valid yet/);
+    assert.throws(() => identify(signed({}), { issuer: 'https://other.example.com/' }), /issuer/);
+    assert.throws(() => identify(signed({}), { audience: 'other' }), /audience/);
+    // Within the clock tolerance
+    assert.ok(identify(signed({ exp: now - 30 })));
+    assert.ok(identify(signed({ aud: ['other', 'mcp'] }), { audience: 'mcp' }));
+  });
+
+  test('only picks a key without kid when the JWKS holds one key', () => {
+    const token = createToken({ alg: 'ES256' }, claims, signing.privateKey);
+    assert.throws(() => identify(token), /No JWKS key matches/);
+
+    const single = writeJwks('single.json', { signing: signing.publicKey });
+    assert.deepEqual(identify(token, { jwksPath: single }), { user_id: 'user-1', user_name: 'Jane' });
+  });
+
+  test('decodes without verifying when no JWKS is set', () => {
+    const token = createToken({ alg: 'none' }, { sub: 'user-2', profile: { email: 'jane@example.com' } });
+    const identifier = createJwtUserIdentifier({ claims: { user_email: 'profile.email' } });
+    assert.deepEqual(identifier({ authInfo: { token, clientId: 'client', scopes: [] } }), {
+      user_id: 'user-2',
+      user_email: 'jane@example.com',
+    });
+  });
+});
@@ -0,0 +1,376 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport';
+import { JSONRPCMessage, MessageExtraInfo } from '@modelcontextprotocol/sdk/types';
+import { TraceAdapter, TraceData, TraceMiddleware, TraceMiddlewareOptions } from '../src';
+
+/**
+ * Regression tests for request/response correlation across connections that
+ * reuse the same JSON-RPC ids, as every Streamable HTTP session does.
+ */
+
+class MemoryAdapter implements TraceAdapter {
+  traces: TraceData[] = [];
+
+  export(traceData: TraceData): void {
+    this.traces.push(traceData);
+  }
+
+  requests(sessionId: string): TraceData[] {
+    return this.traces.filter(trace => trace.type === 'request' && trace.session_id === sessionId);
+  }
+}
+
+/**
+ * A transport driven by hand: `receive` delivers a message from the client and
+ * `send` is what the server would write back.
+ */
+class ScriptedTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+  sent: JSONRPCMessage[] = [];
+
+  constructor(public sessionId: string) {}
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage, _options?: TransportSendOptions): Promise<void> {
+    this.sent.push(message);
+  }
+
+  async close(): Promise<void> {
+    this.onclose?.();
+  }
+
+  receive(message: JSONRPCMessage): void {
+    this.onmessage?.(message, { requestInfo: { headers: { 'mcp-session-id': this.sessionId } } });
+  }
+}
+
+function callTool(id: number, name: string, args: Record<string, unknown>): JSONRPCMessage {
+  return { jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: args } };
+}
+
+function toolResult(id: number, text: string): JSONRPCMessage {
+  return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text }] } };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('TraceMiddleware request correlation', () => {
+  let adapter: MemoryAdapter;
+  let tracer: TraceMiddleware;
+  let alice: ScriptedTransport;
+  let bob: ScriptedTransport;
+
+  const setup = (options: Partial<TraceMiddlewareOptions> = {}) => {
+    adapter = new MemoryAdapter();
+    tracer = new TraceMiddleware({ adapter, ...options });
+    alice = tracer.traceTransport(new ScriptedTransport('session-alice'), { role: 'server' });
+    bob = tracer.traceTransport(new ScriptedTransport('session-bob'), { role: 'server' });
+  };
+
+  beforeEach(() => setup());
+
+  afterEach(async () => {
+    await tracer.shutdown();
+  });
+
+  test('pairs responses with the request of their own connection', async () => {
+    alice.receive(callTool(0, 'search', { query: 'alice' }));
+    bob.receive(callTool(0, 'fetch', { url: 'bob' }));
+    alice.receive(callTool(1, 'fetch', { url: 'alice' }));
+    bob.receive(callTool(1, 'search', { query: 'bob' }));
+
+    // Answer in the reverse order of arrival
+    await bob.send(toolResult(1, 'bob search'));
+    await alice.send(toolResult(1, 'alice fetch'));
+    await bob.send(toolResult(0, 'bob fetch'));
+    await alice.send(toolResult(0, 'alice search'));
+    await tracer.flush();
+
+    const expected = [
+      { session: 'session-alice', id: 0, name: 'search', args: { query: 'alice' }, text: 'alice search' },
+      { session: 'session-alice', id: 1, name: 'fetch', args: { url: 'alice' }, text: 'alice fetch' },
+      { session: 'session-bob', id: 0, name: 'fetch', args: { url: 'bob' }, text: 'bob fetch' },
+      { session: 'session-bob', id: 1, name: 'search', args: { query: 'bob' }, text: 'bob search' },
+    ];
+    for (const { session, id, name, args, text } of expected) {
+      const traces = adapter.requests(session).filter(trace => String(trace.id) === String(id));
+      assert.equal(traces.length, 1, `one trace for ${session} #${id}`);
+      const [trace] = traces;
+      assert.equal(trace.status, 'completed');
+      assert.equal(trace.entity_name, name);
+      assert.deepEqual(trace.request, { name, arguments: args });
+      assert.deepEqual(trace.response, { content: [{ type: 'text', text }] });
+    }
+    assert.equal(adapter.traces.filter(trace => trace.type === 'request').length, 4);
+  });
+
+  test('measures each request from its own start', async () => {
+    alice.receive(callTool(1, 'slow', {}));
+    await sleep(40);
+    bob.receive(callTool(1, 'fast', {}));
+    await sleep(40);
+    await bob.send(toolResult(1, 'fast'));
+    await alice.send(toolResult(1, 'slow'));
+    await tracer.flush();
+
+    const [slow] = adapter.requests('session-alice');
+    const [fast] = adapter.requests('session-bob');
+    assert.equal(slow.entity_name, 'slow');
+    assert.equal(fast.entity_name, 'fast');
+    assert.ok(slow.duration! >= 75, `slow request took ${slow.duration}ms`);
+    assert.ok(fast.duration! >= 35, `fast request took ${fast.duration}ms`);
+    assert.ok(fast.duration! < slow.duration!);
+  });
+
+  test('keeps inbound and outbound requests with the same id apart', async () => {
+    alice.receive(callTool(1, 'summarize', {}));
+    await alice.send(
+      { jsonrpc: '2.0', id: 1, method: 'sampling/createMessage', params: { messages: [], maxTokens: 10 } },
+      { relatedRequestId: 1 }
+    );
+    alice.receive({ jsonrpc: '2.0', id: 1, result: { role: 'assistant', content: { type: 'text', text: 'sampled' }, model: 'm' } });
+    await alice.send(toolResult(1, 'summary'));
+    await tracer.flush();
+
+    const traces = adapter.requests('session-alice');
+    const sampling = traces.find(trace => trace.method === 'sampling/createMessage')!;
+    const tool = traces.find(trace => trace.method === 'tools/call')!;
+    assert.equal(traces.length, 2);
+    assert.equal(sampling.direction, 'outbound');
+    assert.equal(sampling.response.model, 'm');
+    assert.equal(tool.direction, 'inbound');
+    assert.deepEqual(tool.response, { content: [{ type: 'text', text: 'summary' }] });
+  });
+
+  test('links relatedRequestId notifications to the request of their own connection', async () => {
+    alice.receive(callTool(1, 'search', {}));
+    bob.receive(callTool(1, 'search', {}));
+
+    const log = (text: string): JSONRPCMessage => ({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: text } });
+    await bob.send(log('bob'), { relatedRequestId: 1 });
+    await alice.send(log('alice'), { relatedRequestId: 1 });
+    await alice.send(toolResult(1, 'alice'));
+    await bob.send(toolResult(1, 'bob'));
+    await tracer.flush();
+
+    for (const session of ['session-alice', 'session-bob']) {
+      const request = adapter.requests(session)[0];
+      const notification = adapter.traces.find(trace => trace.type === 'notification' && trace.session_id === session)!;
+      assert.equal(notification.request.data, session.replace('session-', ''));
+      assert.equal(notification.trace_id, request.trace_id);
+      assert.equal(notification.parent_span_id, request.span_id);
+    }
+  });
+
+  test('cancels only the request of the connection that sent the cancellation', async () => {
+    alice.receive(callTool(1, 'search', { query: 'alice' }));
+    bob.receive(callTool(1, 'search', { query: 'bob' }));
+
+    alice.receive({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1, reason: 'user aborted' } });
+    await bob.send(toolResult(1, 'bob'));
+    // The handler may still answer after the cancellation; that response is not traced
+    await alice.send(toolResult(1, 'alice'));
+    await tracer.flush();
+
+    const [cancelled] = adapter.requests('session-alice');
+    assert.equal(adapter.requests('session-alice').length, 1);
+    assert.equal(cancelled.status, 'cancelled');
+    assert.equal(cancelled.status_reason, 'user aborted');
+    assert.deepEqual(cancelled.request, { name: 'search', arguments: { query: 'alice' } });
+
+    const [completed] = adapter.requests('session-bob');
+    assert.equal(adapter.requests('session-bob').length, 1);
+    assert.equal(completed.status, 'completed');
+    assert.deepEqual(completed.response, { content: [{ type: 'text', text: 'bob' }] });
+
+    assert.ok(!adapter.traces.some(trace => trace.method === 'notifications/cancelled'));
+  });
+
+  test('cancels requests on each connection independently', async () => {
+    for (const transport of [alice, bob]) {
+      transport.receive(callTool(0, 'search', {}));
+      transport.receive(callTool(1, 'fetch', {}));
+    }
+
+    alice.receive({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 0 } });
+    bob.receive({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } });
+    await alice.send(toolResult(1, 'alice'));
+    await bob.send(toolResult(0, 'bob'));
+    await tracer.flush();
+
+    const statuses = (session: string) => Object.fromEntries(
+      adapter.requests(session).map(trace => [trace.entity_name, trace.status])
+    );
+    assert.deepEqual(statuses('session-alice'), { search: 'cancelled', fetch: 'completed' });
+    assert.deepEqual(statuses('session-bob'), { search: 'completed', fetch: 'cancelled' });
+  });
+
+  test('drops a response that arrives after its request timed out', async () => {
+    await tracer.shutdown();
+    setup({ requestTimeout: 30 });
+
+    alice.receive(callTool(1, 'slow', {}));
+    bob.receive(callTool(1, 'fast', {}));
+    await bob.send(toolResult(1, 'bob'));
+    await sleep(60);
+    await alice.send(toolResult(1, 'late'));
+    await tracer.flush();
+
+    const traces = adapter.requests('session-alice');
+    assert.equal(traces.length, 1);
+    assert.equal(traces[0].status, 'timeout');
+    assert.equal(traces[0].entity_name, 'slow');
+    assert.equal(adapter.requests('session-bob')[0].status, 'completed');
+  });
+
+  test('aborts only the requests of a closed connection', async () => {
+    alice.receive(callTool(1, 'search', {}));
+    bob.receive(callTool(1, 'search', {}));
+
+    await alice.close();
+    await bob.send(toolResult(1, 'bob'));
+    await tracer.flush();
+
+    assert.equal(adapter.requests('session-alice')[0].status, 'aborted');
+    assert.equal(adapter.requests('session-bob')[0].status, 'completed');
+  });
+});
+
+describe('TraceMiddleware error fields', () => {
+  let adapter: MemoryAdapter;
+  let tracer: TraceMiddleware;
+  let transport: ScriptedTransport;
+
+  const setup = (options: Partial<TraceMiddlewareOptions>) => {
+    adapter = new MemoryAdapter();
+    tracer = new TraceMiddleware({ adapter, ...options });
+    transport = tracer.traceTransport(new ScriptedTransport('session'), { role: 'server' });
+  };
+
+  const failedTool = (id: number): JSONRPCMessage => ({
+    jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: 'secret=hunter2' }], isError: true },
+  });
+  const protocolError = (id: number): JSONRPCMessage => ({
+    jsonrpc: '2.0', id, error: { code: -32602, message: 'Bad token abc', data: { token: 'abc' } },
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+  });
+
+  test('error: false drops every error detail', async () => {
+    setup({ logFields: { error: false } });
+    transport.receive(callTool(1, 'getSecret', {}));
+    transport.receive(callTool(2, 'getSecret', {}));
+    await transport.send(failedTool(1));
+    await transport.send(protocolError(2));
+    await tracer.flush();
+
+    for (const trace of adapter.requests('session')) {
+      assert.equal(trace.is_error, true);
+      assert.ok(trace.error_type);
+      for (const field of ['error', 'error_code', 'error_message', 'error_data'] as const) {
+        assert.equal(trace[field], undefined, `${field} of a ${trace.error_type} error`);
+      }
+    }
+  });
+
+  test('response: false drops the error text of a failed tool', async () => {
+    setup({ logFields: { response: false } });
+    transport.receive(callTool(1, 'getSecret', {}));
+    await transport.send(failedTool(1));
+    await tracer.flush();
+
+    const [trace] = adapter.requests('session');
+    assert.equal(trace.response, undefined);
+    assert.equal(trace.error, 'Tool reported an error');
+    assert.equal(trace.error_message, undefined);
+  });
+
+  test('capture policies apply to the error text of a failed tool', async () => {
+    setup({
+      capture: [
+        { entity_name: 'getSecret', response: false },
+        { entity_name: 'search', response: { exclude: ['content[1]'] } },
+      ],
+    });
+    transport.receive(callTool(1, 'getSecret', {}));
+    transport.receive(callTool(2, 'search', {}));
+    await transport.send(failedTool(1));
+    await transport.send({
+      jsonrpc: '2.0', id: 2, result: { content: [{ type: 'text', text: 'not found' }, { type: 'text', text: 'secret=hunter2' }], isError: true },
+    });
+    await tracer.flush();
+
+    const [secret, search] = adapter.requests('session');
+    assert.equal(secret.error, 'Tool reported an error');
+    assert.equal(secret.error_message, undefined);
+    assert.equal(search.error, 'not found');
+    assert.equal(search.error_message, 'not found');
+  });
+});
+
+describe('TraceMiddleware server info', () => {
+  test('records the name of each traced server', async () => {
+    const adapter = new MemoryAdapter();
+    const tracer = new TraceMiddleware({ adapter, serverInfo: { server_id: 'host-1' } });
+    const clients: Client[] = [];
+
+    for (const name of ['alpha', 'beta']) {
+      const server = new Server({ name, version: '1.0.0' }, { capabilities: {} });
+      tracer.init(server);
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const client = new Client({ name: 'client', version: '1.0.0' });
+      await client.connect(clientTransport);
+      await client.ping();
+      clients.push(client);
+    }
+    for (const client of clients) {
+      await client.close();
+    }
+    await tracer.shutdown();
+
+    const pings = adapter.traces.filter(trace => trace.method === 'ping');
+    assert.deepEqual(pings.map(trace => [trace.server_id, trace.server_name]), [['host-1', 'alpha'], ['host-1', 'beta']]);
+    const ends = adapter.traces.filter(trace => trace.type === 'session_end');
+    assert.deepEqual(ends.map(trace => trace.server_name), ['alpha', 'beta']);
+  });
+});
+
+describe('TraceMiddleware trace context', () => {
+  test('propagates the trace of a client request to the server', async () => {
+    const adapter = new MemoryAdapter();
+    const tracer = new TraceMiddleware({ adapter });
+    const server = new McpServer({ name: 'server', version: '1.0.0' });
+    server.tool('echo', async () => ({ content: [{ type: 'text', text: 'hi' }] }));
+    tracer.init(server);
+    const client = new Client({ name: 'client', version: '1.0.0' });
+    tracer.initClient(client);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    const request = { name: 'echo', arguments: {} };
+    await client.callTool(request);
+    await client.close();
+    await tracer.shutdown();
+
+    const calls = adapter.traces.filter(trace => trace.method === 'tools/call');
+    const sent = calls.find(trace => trace.side === 'client')!;
+    const received = calls.find(trace => trace.side === 'server')!;
+    assert.equal(received.trace_id, sent.trace_id);
+    assert.equal(received.parent_span_id, sent.span_id);
+    assert.deepEqual(request, { name: 'echo', arguments: {} });
+  });
+});
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { PayloadLimiter } from '../src/payload';
+
+describe('PayloadLimiter', () => {
+  test('leaves payloads within the limit unchanged', () => {
+    const limiter = new PayloadLimiter({ maxPayloadBytes: 64, summarizeBinary: false });
+    const value = { text: 'short' };
+    assert.equal(limiter.limit('request', value), value);
+  });
+
+  test('cuts on a UTF-8 character boundary', () => {
+    const limiter = new PayloadLimiter({ maxPayloadBytes: 10, summarizeBinary: false });
+    // The JSON is `"aé€😀…"`; byte 10 falls inside the emoji
+    const value = 'aé€😀' + 'x'.repeat(10);
+    const json = JSON.stringify(value);
+    const size = Buffer.byteLength(json);
+
+    const truncated = limiter.limit('response', value);
+    assert.equal(truncated, `"aé€...[truncated ${size - 7} of ${size} bytes]`);
+    assert.ok(!truncated.includes('�'));
+  });
+
+  test('applies per-field limits over the global one', () => {
+    const limiter = new PayloadLimiter({ maxPayloadBytes: 1000, payloadLimits: { response: 8 }, summarizeBinary: false });
+    const value = { text: 'x'.repeat(20) };
+    assert.equal(limiter.limit('request', value), value);
+    assert.match(limiter.limit('response', value), /^\{"text":\.\.\.\[truncated 23 of 31 bytes\]$/);
+  });
+
+  test('summarizes binary content', () => {
+    const limiter = new PayloadLimiter({ summarizeBinary: true });
+    const data = Buffer.from('png bytes').toString('base64');
+    const [image, text] = limiter.limit('response', [{ type: 'image', data, mimeType: 'image/png' }, { type: 'text', data }]);
+    assert.match(image.data, /^\[binary image\/png, 9 bytes, sha256:[0-9a-f]{64}\]$/);
+    assert.equal(text.data, data);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Redactor } from '../src';
+
+describe('Redactor', () => {
+  const detectors = new Redactor({ rules: [{ detectors: ['credit_card', 'phone', 'email'] }] });
+
+  test('only masks card numbers that pass the Luhn check', () => {
+    assert.equal(detectors.redactText('card 4111 1111 1111 1111 ok'), 'card [REDACTED:credit_card] ok');
+    assert.equal(detectors.redactText('card 4111-1111-1111-1112 ok'), 'card 4111-1111-1111-1112 ok');
+  });
+
+  test('masks phone numbers', () => {
+    assert.equal(detectors.redactText('call +1 415-555-0132 now'), 'call [REDACTED:phone] now');
+    assert.equal(detectors.redactText('call (415) 555-0132'), 'call [REDACTED:phone]');
+  });
+
+  test('leaves numbers that only look like phone numbers', () => {
+    for (const text of [
+      'order 1234 5678 9012 3456',
+      'on 2026-01-31 at 12:30',
+      'ip 192.168.100.200',
+      'version 1.2.3',
+      'ts 1706659200000',
+    ]) {
+      assert.equal(detectors.redactText(text), text);
+    }
+  });
+
+  test('removes matching entries from arrays instead of leaving holes', () => {
+    const redactor = new Redactor({
+      rules: [
+        { keys: ['secret'], action: 'remove' },
+        { paths: ['items[1]'], action: 'remove' },
+      ],
+    });
+
+    assert.deepEqual(
+      redactor.redact({ items: ['a', 'b', 'c'], users: [{ name: 'a', secret: 1 }, { name: 'b', secret: 2 }] }),
+      { items: ['a', 'c'], users: [{ name: 'a' }, { name: 'b' }] }
+    );
+  });
+
+  test('hashes with the salt and never modifies its input', () => {
+    const input = { arguments: { email: 'jane@example.com', customer: { id: 42 } } };
+    const salted = new Redactor({ rules: [{ paths: ['arguments.customer.id'], action: 'hash' }], hashSalt: 'salt' });
+    const unsalted = new Redactor({ rules: [{ paths: ['arguments.customer.id'], action: 'hash' }] });
+
+    const redacted = salted.redact(input);
+    assert.match(redacted.arguments.customer.id, /^sha256:[0-9a-f]{16}$/);
+    assert.notEqual(redacted.arguments.customer.id, unsalted.redact(input).arguments.customer.id);
+    assert.deepEqual(input, { arguments: { email: 'jane@example.com', customer: { id: 42 } } });
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, test } from 'node:test';
+import { gzipSync } from 'node:zlib';
+import { TraceData, TraceReader } from '../src';
+
+async function readAll(reader: TraceReader): Promise<TraceData[]> {
+  const traces: TraceData[] = [];
+  for await (const trace of reader.read()) {
+    traces.push(trace);
+  }
+  return traces;
+}
+
+function jsonLines(...sessionIds: string[]): string {
+  return sessionIds
+    .map(sessionId => JSON.stringify({ type: 'request', timestamp: '2026-01-31T00:00:00.000Z', session_id: sessionId }) + '\n')
+    .join('');
+}
+
+describe('TraceReader', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'trace-reader-'));
+
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  test('rejects on a missing file instead of crashing', async () => {
+    for (const file of ['gone.jsonl', 'gone.jsonl.gz']) {
+      await assert.rejects(readAll(new TraceReader(join(directory, file))), { code: 'ENOENT' });
+    }
+  });
+
+  test('reads rotated files once while one is being compressed', async () => {
+    const file = join(directory, 'traces.jsonl');
+    writeFileSync(join(directory, 'traces.2026-01-30T00-00-00-000.jsonl.gz'), gzipSync(jsonLines('a')));
+    // A rotation in progress: the plain copy is only deleted once compressed
+    writeFileSync(join(directory, 'traces.2026-01-31T00-00-00-000.jsonl'), jsonLines('b'));
+    writeFileSync(join(directory, 'traces.2026-01-31T00-00-00-000.jsonl.gz'), gzipSync(jsonLines('b')));
+    writeFileSync(file, jsonLines('c'));
+
+    const traces = await readAll(new TraceReader(file, { includeRotated: true }));
+    assert.deepEqual(traces.map(trace => trace.session_id), ['a', 'b', 'c']);
+  });
+});